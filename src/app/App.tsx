@@ -1,11 +1,17 @@
 import React, { useState, useRef, useCallback, useEffect } from "react";
 import { SettingsPanel } from "./components/SettingsPanel";
 import { ImageUploader } from "./components/ImageUploader";
-import { DitherCanvas } from "./components/DitherCanvas";
+import { CompareMode, DitherCanvas, DitherCanvasHandle, getPreviewScale } from "./components/DitherCanvas";
+import { MetricsPanel } from "./components/MetricsPanel";
+import { ContactSheet } from "./components/ContactSheet";
 import { DitherSettings } from "./types";
 import { PRESET_PALETTES } from "./lib/palettes";
+import { ALGORITHM_DEFAULTS } from "./lib/algorithms";
+import { CMYK_PLATE_NAMES, CmykPlates, DEFAULT_CMYK_ANGLES } from "./lib/cmyk";
+import { encodeOneBitPng } from "./lib/png";
+import { DitherMetrics } from "./lib/metrics";
 import { Button } from "./components/ui/button";
-import { Download, ZoomIn, ZoomOut, Upload, Monitor, Maximize2 } from "lucide-react";
+import { Download, ZoomIn, ZoomOut, Upload, Monitor, Maximize2, Layers, ChartColumn, SplitSquareHorizontal, Columns2, Eye, LayoutGrid } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -19,11 +25,21 @@ import {
   TooltipTrigger,
 } from "./components/ui/tooltip";
 
+// Algorithm settings start at the defaults their params declare
 const DEFAULT_SETTINGS: DitherSettings = {
+  ...ALGORITHM_DEFAULTS,
   algorithm: "Floyd-Steinberg",
+  cmykAngles: DEFAULT_CMYK_ANGLES,
+  cmykBlackGeneration: 100,
+  cmykUnderColorRemoval: 100,
+  seed: 1,
   resolutionScale: 0.5,
   colorSpace: "1-bit",
   palette: PRESET_PALETTES[0].colors,
+  colorMetric: "RGB",
+  linearLight: false,
+  alphaDither: false,
+  alphaAlgorithm: "Threshold",
   brightness: 0,
   contrast: 0,
   sharpness: 0,
@@ -34,6 +50,13 @@ const DEFAULT_SETTINGS: DitherSettings = {
   levelsHighlights: 255,
 };
 
+// Ways to compare the result with the adjusted source
+const COMPARE_MODES: { mode: CompareMode; label: string; Icon: React.ComponentType<{ className?: string }> }[] = [
+  { mode: "swipe", label: "Swipe Compare", Icon: SplitSquareHorizontal },
+  { mode: "split", label: "Side by Side", Icon: Columns2 },
+  { mode: "hold", label: "Hold to Show Source", Icon: Eye },
+];
+
 export default function App() {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imageUrl, setImageUrl] = useState<string>("");
@@ -43,8 +66,13 @@ export default function App() {
   const [zoom, setZoom] = useState(1);
   const [isFit, setIsFit] = useState(true);
   const [exportFormat, setExportFormat] = useState<"png" | "jpeg" | "webp">("png");
+  const [plates, setPlates] = useState<CmykPlates | null>(null);
+  const [metrics, setMetrics] = useState<DitherMetrics | null>(null);
+  const [showMetrics, setShowMetrics] = useState(false);
+  const [compareMode, setCompareMode] = useState<CompareMode>("off");
+  const [showContactSheet, setShowContactSheet] = useState(false);
 
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasRef = useRef<DitherCanvasHandle>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleImageUpload = (file: File) => {
@@ -83,12 +111,33 @@ export default function App() {
     });
   }, []);
 
-  const handleDownload = () => {
-    if (!canvasRef.current) return;
+  // Results larger than the preview can only be exported as PNG
+  const largeResult = getPreviewScale(processedDimensions.w, processedDimensions.h) < 1;
+  const exportType = largeResult ? "png" : exportFormat;
+
+  const handleDownload = async () => {
+    const blob = await canvasRef.current?.exportImage(`image/${exportType}`);
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
-    link.download = `dithered-image.${exportFormat}`;
-    link.href = canvasRef.current.toDataURL(`image/${exportFormat}`);
+    link.download = `dithered-image.${exportType}`;
+    link.href = url;
     link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  // One 1-bit PNG per ink, named after the plate
+  const handleDownloadPlates = async () => {
+    if (!plates) return;
+    for (let i = 0; i < CMYK_PLATE_NAMES.length; i++) {
+      const blob = await encodeOneBitPng(plates.plates[i], plates.width, plates.height);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.download = `dithered-image-${CMYK_PLATE_NAMES[i].toLowerCase()}.png`;
+      link.href = url;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    }
   };
 
   const adjustZoom = (delta: number) => {
@@ -193,44 +242,93 @@ export default function App() {
                       </TooltipTrigger>
                       <TooltipContent>Zoom In</TooltipContent>
                     </Tooltip>
+
+                    <div className="mx-2 h-4 w-px bg-border" />
+
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                          <Button variant={showMetrics ? "secondary" : "outline"} size="icon" onClick={() => setShowMetrics(v => !v)}>
+                            <ChartColumn className="h-4 w-4" />
+                          </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>Quality Metrics</TooltipContent>
+                    </Tooltip>
+
+                    <div className="mx-2 h-4 w-px bg-border" />
+
+                    {COMPARE_MODES.map(({ mode, label, Icon }) => (
+                      <Tooltip key={mode}>
+                        <TooltipTrigger asChild>
+                            <Button
+                              variant={compareMode === mode ? "secondary" : "outline"}
+                              size="icon"
+                              onClick={() => setCompareMode(prev => prev === mode ? "off" : mode)}
+                            >
+                              <Icon className="h-4 w-4" />
+                            </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>{label}</TooltipContent>
+                      </Tooltip>
+                    ))}
+
+                    <div className="mx-2 h-4 w-px bg-border" />
+
+                    <Button variant="outline" onClick={() => setShowContactSheet(true)} className="gap-2">
+                       <LayoutGrid className="h-4 w-4" /> Compare All
+                    </Button>
                  </div>
 
                  <div className="flex items-center gap-2">
-                    <Select value={exportFormat} onValueChange={(v: any) => setExportFormat(v)}>
+                    <Select value={exportType} onValueChange={(v: any) => setExportFormat(v)}>
                        <SelectTrigger className="w-24">
                           <SelectValue />
                        </SelectTrigger>
                        <SelectContent>
                           <SelectItem value="png">PNG</SelectItem>
-                          <SelectItem value="jpeg">JPG</SelectItem>
-                          <SelectItem value="webp">WebP</SelectItem>
+                          <SelectItem value="jpeg" disabled={largeResult}>JPG</SelectItem>
+                          <SelectItem value="webp" disabled={largeResult}>WebP</SelectItem>
                        </SelectContent>
                     </Select>
                     <Button onClick={handleDownload} className="gap-2">
                        <Download className="h-4 w-4" /> Export
                     </Button>
+                    {settings.colorSpace === "CMYK" && plates && (
+                       <Button variant="outline" onClick={handleDownloadPlates} className="gap-2">
+                          <Layers className="h-4 w-4" /> Export Plates
+                       </Button>
+                    )}
                  </div>
               </div>
 
 
               
-              {/* Re-implementing structure for correct scrolling/fitting */}
-               <div className={`flex flex-1 items-center justify-center p-4 ${isFit ? 'overflow-hidden' : 'overflow-auto'}`}>
-                   <div className={`relative rounded-md border shadow-sm bg-background transition-all ${
-                       isFit ? 'h-full w-full' : ''
-                   }`}>
-                      <DitherCanvas
-                         ref={canvasRef}
-                         src={imageUrl}
-                         settings={settings}
-                         onDimensionsChange={handleDimensionsChange}
-                         zoom={zoom}
-                         className={`transition-all ${isFit ? 'h-full w-full object-contain' : ''}`}
-                         style={isFit ? { width: '100%', height: '100%', objectFit: 'contain' } : undefined}
-                      />
-                   </div>
-               </div>
+              {/* Scrolling/fitting and the comparison panes live in the canvas component */}
+              <DitherCanvas
+                 ref={canvasRef}
+                 src={imageUrl}
+                 settings={settings}
+                 onDimensionsChange={handleDimensionsChange}
+                 onPlatesChange={setPlates}
+                 onMetricsChange={setMetrics}
+                 zoom={zoom}
+                 fit={isFit}
+                 compareMode={compareMode}
+              />
+
+              {showMetrics && (
+                 <div className="border-t bg-background">
+                    <MetricsPanel metrics={metrics} />
+                 </div>
+              )}
             </div>
+
+            <ContactSheet
+               open={showContactSheet}
+               onOpenChange={setShowContactSheet}
+               imageUrl={imageUrl}
+               settings={settings}
+               onApply={updateSettings}
+            />
           </div>
         )}
       </main>
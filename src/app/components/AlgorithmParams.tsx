@@ -0,0 +1,164 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Slider } from "./ui/slider";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { AlgorithmName, CustomKernel, DitherSettings } from "../types";
+import {
+  ALGORITHM_CATEGORIES,
+  AlgorithmParam,
+  getAlgorithmsByCategory,
+} from "../lib/algorithms";
+import { CustomKernelEditor } from "./CustomKernelEditor";
+
+// Algorithm picker grouped by category. `exclude` hides one entry, e.g. the
+// algorithm that is asking for a starting point.
+export const AlgorithmSelect: React.FC<{
+  value: AlgorithmName;
+  onChange: (algorithm: AlgorithmName) => void;
+  exclude?: AlgorithmName;
+}> = ({ value, onChange, exclude }) => (
+  <Select value={value} onValueChange={(val) => onChange(val as AlgorithmName)}>
+    <SelectTrigger>
+      <SelectValue placeholder="Select algorithm" />
+    </SelectTrigger>
+    <SelectContent>
+      {ALGORITHM_CATEGORIES.map((category) => (
+        <SelectGroup key={category}>
+          <SelectLabel>{category}</SelectLabel>
+          {getAlgorithmsByCategory(category)
+            .filter((algo) => algo.id !== exclude)
+            .map((algo) => (
+              <SelectItem key={algo.id} value={algo.id}>
+                {algo.name}
+              </SelectItem>
+            ))}
+        </SelectGroup>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface AlgorithmParamsProps {
+  params: AlgorithmParam[];
+  settings: DitherSettings;
+  updateSettings: (partial: Partial<DitherSettings>) => void;
+  onSaveKernel: (name: string, kernel: CustomKernel) => void;
+}
+
+// Controls generated from an algorithm's parameter schema
+export const AlgorithmParams: React.FC<AlgorithmParamsProps> = ({
+  params,
+  settings,
+  updateSettings,
+  onSaveKernel,
+}) => (
+  <>
+    {params
+      .filter((param) => param.visible?.(settings) ?? true)
+      .map((param) => {
+        const hint = param.hint && (
+          <p className="text-[10px] text-muted-foreground">{param.hint}</p>
+        );
+
+        switch (param.kind) {
+          case "slider": {
+            const max = typeof param.max === "function" ? param.max(settings) : param.max;
+            // Algorithms clamp to a dynamic max, so show the value they apply
+            const value = Math.min(settings[param.key], max);
+            return (
+              <div key={param.key} className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>{param.label}</Label>
+                  <span className="text-xs text-muted-foreground">
+                    {param.format ? param.format(value, settings) : value}
+                  </span>
+                </div>
+                <Slider
+                  value={[value]}
+                  min={param.min}
+                  max={max}
+                  step={param.step}
+                  onValueChange={([val]) => updateSettings({ [param.key]: val })}
+                />
+                {hint}
+              </div>
+            );
+          }
+
+          case "toggle":
+            return (
+              <div key={param.key} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={param.key}>{param.label}</Label>
+                  <Switch
+                    id={param.key}
+                    checked={settings[param.key]}
+                    onCheckedChange={(checked) => updateSettings({ [param.key]: checked })}
+                  />
+                </div>
+                {hint}
+              </div>
+            );
+
+          case "select":
+            return (
+              <div key={param.key} className="space-y-2">
+                <Label>{param.label}</Label>
+                <Select
+                  value={String(settings[param.key])}
+                  onValueChange={(val) => {
+                    // Options may be numbers; Select only deals in strings
+                    const option = param.options.find((o) => String(o.value) === val);
+                    if (option) updateSettings({ [param.key]: option.value });
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {param.options.map((option) => (
+                      <SelectItem key={option.value} value={String(option.value)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {hint}
+              </div>
+            );
+
+          case "algorithm":
+            return (
+              <div key={param.key} className="space-y-2">
+                <Label>{param.label}</Label>
+                <AlgorithmSelect
+                  value={settings[param.key]}
+                  onChange={(algorithm) => updateSettings({ [param.key]: algorithm })}
+                  exclude={settings.algorithm}
+                />
+                {hint}
+              </div>
+            );
+
+          case "kernel":
+            return (
+              <CustomKernelEditor
+                key={param.key}
+                kernel={settings.customKernel}
+                onChange={(customKernel) => updateSettings({ customKernel })}
+                onSave={onSaveKernel}
+              />
+            );
+        }
+      })}
+  </>
+);
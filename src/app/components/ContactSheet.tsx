@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Label } from "./ui/label";
+import { DitherSettings } from "../types";
+import { ALGORITHM_REGISTRY } from "../lib/algorithms";
+import { PRESET_PALETTES } from "../lib/palettes";
+import { createDitherPipeline, DitherPipeline } from "../lib/ditherPipeline";
+
+type SheetVariation = "algorithms" | "palettes";
+type SheetRegion = "whole" | "center";
+
+type Tile = {
+  key: string;
+  label: string;
+  changes: Partial<DitherSettings>; // Applied to the editor when picked
+};
+
+interface ContactSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  imageUrl: string;
+  settings: DitherSettings;
+  onApply: (changes: Partial<DitherSettings>) => void;
+}
+
+// Longest side of a tile, in output pixels
+const TILE_SIZE = 160;
+
+// How long a tile took to render, or why it couldn't be
+type TileStatus = { elapsed: number } | { error: string };
+
+const getTiles = (variation: SheetVariation): Tile[] =>
+  variation === "algorithms"
+    ? ALGORITHM_REGISTRY.map((algorithm) => ({
+        key: algorithm.id,
+        label: algorithm.name,
+        changes: { algorithm: algorithm.id },
+      }))
+    : PRESET_PALETTES.map((palette) => ({
+        key: palette.name,
+        label: palette.name,
+        // Same as picking the preset in the settings panel
+        changes: { palette: palette.colors, colorSpace: "Custom" },
+      }));
+
+const isCurrent = (tile: Tile, settings: DitherSettings) =>
+  Object.entries(tile.changes).every(
+    ([key, value]) => JSON.stringify(settings[key as keyof DitherSettings]) === JSON.stringify(value)
+  );
+
+// The source of each tile: the whole image scaled to fit, or a crop from the
+// middle at the editor's resolution so the dither pattern shows 1:1
+const createTileSource = (image: HTMLImageElement, region: SheetRegion, scale: number) => {
+  if (region === "whole") {
+    const fit = TILE_SIZE / Math.max(image.width, image.height);
+    return createImageBitmap(image, {
+      resizeWidth: Math.max(1, Math.round(image.width * fit)),
+      resizeHeight: Math.max(1, Math.round(image.height * fit)),
+    });
+  }
+  const sw = Math.min(image.width, Math.round(TILE_SIZE / scale));
+  const sh = Math.min(image.height, Math.round(TILE_SIZE / scale));
+  const sx = Math.floor((image.width - sw) / 2);
+  const sy = Math.floor((image.height - sh) / 2);
+  return createImageBitmap(image, sx, sy, sw, sh, {
+    resizeWidth: Math.max(1, Math.round(sw * scale)),
+    resizeHeight: Math.max(1, Math.round(sh * scale)),
+  });
+};
+
+// Renders the image with every registered algorithm or every preset palette,
+// one tile at a time, with how long each took
+export const ContactSheet: React.FC<ContactSheetProps> = ({
+  open,
+  onOpenChange,
+  imageUrl,
+  settings,
+  onApply,
+}) => {
+  const [variation, setVariation] = useState<SheetVariation>("algorithms");
+  const [region, setRegion] = useState<SheetRegion>("whole");
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, TileStatus>>({});
+  const canvases = useRef(new Map<string, HTMLCanvasElement>());
+  const tiles = useMemo(() => getTiles(variation), [variation]);
+
+  // Its own pipeline, so the sheet and the editor don't cancel each other
+  const pipelineRef = useRef<DitherPipeline | null>(null);
+  useEffect(() => {
+    const pipeline = createDitherPipeline();
+    pipelineRef.current = pipeline;
+    return () => {
+      pipeline.dispose();
+      pipelineRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!imageUrl) return;
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.src = imageUrl;
+    img.onload = () => setImage(img);
+  }, [imageUrl]);
+
+  // Renders all tiles in turn; any change starts over
+  useEffect(() => {
+    const pipeline = pipelineRef.current;
+    if (!open || !image || !pipeline) return;
+    let cancelled = false;
+    setStatuses({});
+
+    // A tile that fails is marked as such and the rest still render
+    const renderAll = async () => {
+      for (const tile of tiles) {
+        const canvas = canvases.current.get(tile.key);
+        const ctx = canvas?.getContext("2d");
+        try {
+          const source = await createTileSource(image, region, settings.resolutionScale);
+          if (cancelled) {
+            source.close();
+            return;
+          }
+          if (canvas) {
+            canvas.width = source.width;
+            canvas.height = source.height;
+          }
+          const start = performance.now();
+          const { width, height } = source;
+          const result = await pipeline.run(
+            source,
+            width,
+            height,
+            { ...settings, ...tile.changes },
+            (strip, top) => ctx?.putImageData(strip, 0, top)
+          );
+          if (!result || cancelled) return;
+          const elapsed = performance.now() - start;
+          setStatuses((prev) => ({ ...prev, [tile.key]: { elapsed } }));
+        } catch (err) {
+          if (cancelled) return;
+          console.error(`Contact sheet tile "${tile.label}" failed`, err);
+          if (canvas) ctx?.clearRect(0, 0, canvas.width, canvas.height);
+          const error = err instanceof Error ? err.message : String(err);
+          setStatuses((prev) => ({ ...prev, [tile.key]: { error } }));
+        }
+      }
+    };
+
+    renderAll();
+    return () => {
+      cancelled = true;
+      pipeline.cancel();
+    };
+  }, [open, image, tiles, region, settings]);
+
+  const apply = (tile: Tile) => {
+    onApply(tile.changes);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[90vh] flex-col sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Compare All</DialogTitle>
+          <DialogDescription>
+            Every {variation === "algorithms" ? "algorithm" : "preset palette"} with your current
+            settings. Click a tile to use it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Compare</Label>
+            <Select value={variation} onValueChange={(val) => setVariation(val as SheetVariation)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="algorithms">Algorithms</SelectItem>
+                <SelectItem value="palettes">Palettes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Region</Label>
+            <Select value={region} onValueChange={(val) => setRegion(val as SheetRegion)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="whole">Whole image</SelectItem>
+                <SelectItem value="center">Center crop (1:1)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {variation === "algorithms" && settings.colorSpace === "CMYK" && (
+            <p className="text-xs text-muted-foreground">
+              CMYK mode screens every plate with halftone dots, so all algorithms look the same.
+            </p>
+          )}
+        </div>
+
+        <div className="grid min-h-0 grid-cols-2 gap-3 overflow-y-auto pr-1 sm:grid-cols-3 lg:grid-cols-5">
+          {tiles.map((tile) => {
+            const status = statuses[tile.key];
+            return (
+              <button
+                key={tile.key}
+                type="button"
+                onClick={() => apply(tile)}
+                className={`space-y-1 rounded-md border p-2 text-left transition-colors hover:bg-accent ${
+                  isCurrent(tile, settings) ? "ring-2 ring-primary" : ""
+                }`}
+              >
+                <div className="flex aspect-square items-center justify-center overflow-hidden rounded-sm bg-muted/30">
+                  <canvas
+                    ref={(el) => {
+                      if (el) canvases.current.set(tile.key, el);
+                      else canvases.current.delete(tile.key);
+                    }}
+                    className="max-h-full max-w-full"
+                    style={{ imageRendering: "pixelated" }}
+                  />
+                </div>
+                <div className="truncate text-xs font-medium">{tile.label}</div>
+                {status && "error" in status ? (
+                  <div className="truncate font-mono text-[10px] text-destructive" title={status.error}>
+                    Failed
+                  </div>
+                ) : (
+                  <div className="font-mono text-[10px] text-muted-foreground">
+                    {status ? `${Math.round(status.elapsed)} ms` : "Rendering…"}
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { CustomKernel } from "../types";
+import { formatMatrix, parseMatrix, validateCustomKernel } from "../lib/customKernel";
+
+interface CustomKernelEditorProps {
+  kernel: CustomKernel;
+  onChange: (kernel: CustomKernel) => void;
+  onSave: (name: string, kernel: CustomKernel) => void;
+}
+
+export const CustomKernelEditor: React.FC<CustomKernelEditorProps> = ({
+  kernel,
+  onChange,
+  onSave,
+}) => {
+  // Edits are kept locally and only pushed to settings once they validate,
+  // so the preview never renders a half-typed kernel
+  const [mode, setMode] = useState(kernel.mode);
+  const [matrixText, setMatrixText] = useState(formatMatrix(kernel.matrix));
+  const [divisor, setDivisor] = useState(String(kernel.divisor));
+  const [originX, setOriginX] = useState(String(kernel.originX));
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const lastCommitted = useRef(kernel);
+
+  // Sync when the kernel is replaced from outside (e.g. a saved kernel is loaded)
+  useEffect(() => {
+    if (kernel === lastCommitted.current) return;
+    lastCommitted.current = kernel;
+    setMode(kernel.mode);
+    setMatrixText(formatMatrix(kernel.matrix));
+    setDivisor(String(kernel.divisor));
+    setOriginX(String(kernel.originX));
+    setError(null);
+  }, [kernel]);
+
+  const commit = (next: { mode?: CustomKernel["mode"]; matrixText?: string; divisor?: string; originX?: string }) => {
+    const values = { mode, matrixText, divisor, originX, ...next };
+    const matrix = parseMatrix(values.matrixText);
+    if (!matrix) {
+      setError("Matrix must contain only numbers");
+      return;
+    }
+    const candidate: CustomKernel = {
+      mode: values.mode,
+      matrix,
+      divisor: Number(values.divisor),
+      originX: Number(values.originX),
+    };
+    const message = validateCustomKernel(candidate);
+    setError(message);
+    if (message) return;
+    lastCommitted.current = candidate;
+    onChange(candidate);
+  };
+
+  const weightSum = kernel.matrix.flat().reduce((sum, v) => sum + v, 0);
+  const flat = kernel.matrix.flat();
+  const min = Math.min(...flat);
+  const max = Math.max(...flat);
+  const columns = Math.max(...kernel.matrix.map((row) => row.length));
+
+  const handleSave = () => {
+    if (!name.trim() || error) return;
+    onSave(name.trim(), kernel);
+    setName("");
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="space-y-2">
+        <Label>Kernel Type</Label>
+        <Select
+          value={mode}
+          onValueChange={(val) => {
+            const nextMode = val as CustomKernel["mode"];
+            setMode(nextMode);
+            commit({ mode: nextMode });
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="diffusion">Error Diffusion Weights</SelectItem>
+            <SelectItem value="threshold">Threshold Matrix</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{mode === "diffusion" ? "Weights" : "Thresholds"}</Label>
+        <Textarea
+          value={matrixText}
+          onChange={(e) => {
+            setMatrixText(e.target.value);
+            commit({ matrixText: e.target.value });
+          }}
+          aria-invalid={!!error}
+          className="font-mono text-xs"
+          rows={4}
+          spellCheck={false}
+        />
+        <p className="text-[10px] text-muted-foreground">
+          One row per line, values separated by spaces or commas.
+        </p>
+      </div>
+
+      {mode === "diffusion" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Divisor</Label>
+            <Input
+              type="number"
+              min={1}
+              value={divisor}
+              onChange={(e) => {
+                setDivisor(e.target.value);
+                commit({ divisor: e.target.value });
+              }}
+              className="h-7 px-2 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Origin Column</Label>
+            <Input
+              type="number"
+              min={0}
+              value={originX}
+              onChange={(e) => {
+                setOriginX(e.target.value);
+                commit({ originX: e.target.value });
+              }}
+              className="h-7 px-2 text-xs"
+            />
+          </div>
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : (
+        <>
+          {/* Preview of the active kernel */}
+          <div
+            className="grid gap-px overflow-hidden rounded-sm border bg-border"
+            style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+          >
+            {kernel.matrix.map((row, y) =>
+              Array.from({ length: columns }, (_, x) => {
+                const v = row[x] ?? 0;
+                const isOrigin = kernel.mode === "diffusion" && y === 0 && x === kernel.originX;
+                const level = max > min ? (v - min) / (max - min) : 0;
+                return (
+                  <div
+                    key={`${y}-${x}`}
+                    className="flex aspect-square items-center justify-center font-mono text-[9px]"
+                    style={{
+                      backgroundColor: isOrigin
+                        ? "var(--primary)"
+                        : `rgb(${Math.round(level * 255)}, ${Math.round(level * 255)}, ${Math.round(level * 255)})`,
+                      color: isOrigin || level < 0.5 ? "white" : "black",
+                    }}
+                  >
+                    {columns <= 8 && (isOrigin ? "X" : v)}
+                  </div>
+                );
+              })
+            )}
+          </div>
+          {kernel.mode === "diffusion" && weightSum !== kernel.divisor && (
+            <p className="text-[10px] text-muted-foreground">
+              Weights sum to {weightSum}; with divisor {kernel.divisor}{" "}
+              {weightSum < kernel.divisor ? "some error is discarded" : "error is amplified"}.
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Kernel name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="h-8 text-xs"
+        />
+        <Button size="sm" variant="secondary" onClick={handleSave} disabled={!name.trim() || !!error}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
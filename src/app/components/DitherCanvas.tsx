@@ -1,43 +1,149 @@
 import React, { useEffect, useRef, useState, useImperativeHandle, forwardRef } from "react";
 import { DitherSettings } from "../types";
-import { processImage } from "../lib/ditherAlgorithms";
+import { createDitherPipeline, DitherPipeline } from "../lib/ditherPipeline";
+import { needsWholeImage, WHOLE_IMAGE_MAX_PIXELS } from "../lib/ditherAlgorithms";
+import { getAlgorithm } from "../lib/algorithms";
+import { createPngStream } from "../lib/png";
+import { CmykPlates } from "../lib/cmyk";
+import { DitherMetrics } from "../lib/metrics";
+import { Progress } from "./ui/progress";
+import { Button } from "./ui/button";
+
+// How the adjusted source is shown next to the result: a draggable divider,
+// two panes side by side, or in place of the result while the mouse is held
+export type CompareMode = "off" | "swipe" | "split" | "hold";
+
+// The preview canvases hold at most this many pixels. Larger results are
+// shown scaled down, and exported from a PNG encoded as their strips arrive.
+const MAX_PREVIEW_PIXELS = 1 << 23;
+
+// Preview pixels per output pixel, along each axis
+export const getPreviewScale = (width: number, height: number) =>
+  Math.min(1, Math.sqrt(MAX_PREVIEW_PIXELS / (width * height)));
+
+export type DitherCanvasHandle = {
+  // The full-size result as an image file. Results larger than the preview
+  // are only kept as PNG, and are null until finished.
+  exportImage: (type: string) => Promise<Blob | null>;
+};
+
+// Draws rows starting at output row `top` onto a preview canvas, scaled down
+// with it. They cover whole preview rows, so strips neither overlap nor
+// leave gaps.
+const drawRows = (canvas: HTMLCanvasElement | null, rows: ImageData, top: number, scale: number) => {
+  const ctx = canvas?.getContext("2d");
+  if (!ctx) return;
+  if (scale === 1) {
+    ctx.putImageData(rows, 0, top);
+    return;
+  }
+  const scratch = new OffscreenCanvas(rows.width, rows.height);
+  scratch.getContext("2d")?.putImageData(rows, 0, 0);
+  const y0 = Math.round(top * scale);
+  const y1 = Math.round((top + rows.height) * scale);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(scratch, 0, 0, rows.width, rows.height, 0, y0, ctx.canvas.width, y1 - y0);
+};
 
 interface DitherCanvasProps {
   src: string;
   settings: DitherSettings;
   onDimensionsChange?: (width: number, height: number) => void;
-  className?: string;
+  onPlatesChange?: (plates: CmykPlates | null) => void; // Separated plates of the last result (CMYK mode)
+  onMetricsChange?: (metrics: DitherMetrics) => void; // Quality metrics of the last result
   zoom?: number;
-  style?: React.CSSProperties;
+  fit?: boolean; // Scale to the preview area instead of using zoom
+  compareMode?: CompareMode;
 }
 
-export const DitherCanvas = forwardRef<HTMLCanvasElement, DitherCanvasProps>(
-  ({ src, settings, onDimensionsChange, className, zoom = 1, style }, ref) => {
+export const DitherCanvas = forwardRef<DitherCanvasHandle, DitherCanvasProps>(
+  ({ src, settings, onDimensionsChange, onPlatesChange, onMetricsChange, zoom = 1, fit = false, compareMode = "off" }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [image, setImage] = useState<HTMLImageElement | null>(null);
+    const sourceRef = useRef<HTMLCanvasElement>(null); // Adjusted source, same size
+    const exportRef = useRef<Promise<Blob> | null>(null); // Large results only
+    const resultPaneRef = useRef<HTMLDivElement>(null);
+    const sourcePaneRef = useRef<HTMLDivElement>(null);
+    const previewRef = useRef<HTMLDivElement>(null);
+    const [swipe, setSwipe] = useState(50); // Divider position, % of the preview width
+    const [holding, setHolding] = useState(false);
+    // The image file and its size; the worker decodes it
+    const [source, setSource] = useState<{ file: Blob; width: number; height: number } | null>(null);
+    // The adjusted source is only rendered and kept while comparing. Runs read
+    // it from a ref, so toggling a comparison doesn't dither again.
+    const comparing = compareMode !== "off";
+    const comparingRef = useRef(comparing);
+    comparingRef.current = comparing;
     const [isProcessing, setIsProcessing] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [pass, setPass] = useState(0); // Iterative algorithms: passes shown so far
+    const [stopping, setStopping] = useState(false); // Finishing with the shown pass
     const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+    const previewScale = getPreviewScale(dimensions.width, dimensions.height);
+    const previewWidth = Math.max(1, Math.round(dimensions.width * previewScale));
+    const previewHeight = Math.max(1, Math.round(dimensions.height * previewScale));
+    // Algorithms that need the whole image at once only run up to a size
+    const tooLarge =
+      needsWholeImage(settings) && dimensions.width * dimensions.height > WHOLE_IMAGE_MAX_PIXELS;
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        exportImage: (type) => {
+          if (previewScale < 1) return exportRef.current ?? Promise.resolve(null);
+          return new Promise((resolve) => {
+            if (canvasRef.current) canvasRef.current.toBlob(resolve, type);
+            else resolve(null);
+          });
+        },
+      }),
+      [previewScale]
+    );
 
-    // Expose the canvas ref
-    useImperativeHandle(ref, () => canvasRef.current as HTMLCanvasElement);
+    // Worker pipelines live for the lifetime of the component: one dithers,
+    // the other only adjusts the source for a comparison turned on later
+    const pipelineRef = useRef<DitherPipeline | null>(null);
+    const adjustPipelineRef = useRef<DitherPipeline | null>(null);
+    useEffect(() => {
+      const pipeline = createDitherPipeline();
+      const adjustPipeline = createDitherPipeline();
+      pipelineRef.current = pipeline;
+      adjustPipelineRef.current = adjustPipeline;
+      return () => {
+        pipeline.dispose();
+        adjustPipeline.dispose();
+        pipelineRef.current = null;
+        adjustPipelineRef.current = null;
+      };
+    }, []);
 
-    // Load Image
+    // Load Image. Only its size is read here; the worker decodes the file.
     useEffect(() => {
       if (!src) return;
+      let cancelled = false;
       const img = new Image();
       img.crossOrigin = "Anonymous";
       img.src = src;
-      img.onload = () => setImage(img);
+      img.onload = () => {
+        fetch(src)
+          .then((res) => res.blob())
+          .then((file) => {
+            if (!cancelled) setSource({ file, width: img.width, height: img.height });
+          })
+          .catch((err) => console.error("Loading image failed", err));
+      };
+      return () => {
+        cancelled = true;
+      };
     }, [src]);
 
     // Calculate Dimensions & Notify Parent
     // This effect handles sizing updates
     useEffect(() => {
-      if (!image) return;
+      if (!source) return;
 
       const scale = settings.resolutionScale; 
-      const width = Math.floor(image.width * scale);
-      const height = Math.floor(image.height * scale);
+      const width = Math.floor(source.width * scale);
+      const height = Math.floor(source.height * scale);
 
       setDimensions(prev => {
          // Optimization: Only update state if values actually changed
@@ -46,7 +152,7 @@ export const DitherCanvas = forwardRef<HTMLCanvasElement, DitherCanvasProps>(
          return { width, height };
       });
       
-    }, [image, settings.resolutionScale]);
+    }, [source, settings.resolutionScale]);
 
     // Notify parent of dimension changes
     // Separated to avoid re-calculating dimensions just because callback changed
@@ -56,15 +162,33 @@ export const DitherCanvas = forwardRef<HTMLCanvasElement, DitherCanvasProps>(
         }
     }, [dimensions, onDimensionsChange]);
 
+    // Turning a comparison on fetches the adjusted source for the result
+    // already shown. Runs started while comparing include it, and cancel this
+    // job since their settings replace its own.
+    useEffect(() => {
+      const pipeline = adjustPipelineRef.current;
+      if (!comparing || !pipeline || !source || dimensions.width === 0 || dimensions.height === 0) return;
+      const { width, height } = dimensions;
+      const scale = getPreviewScale(width, height);
+      pipeline
+        .adjust(source.file, width, height, settings, (rows, top) => drawRows(sourceRef.current, rows, top, scale))
+        .catch((err) => console.error("Adjusting source failed", err));
+      return () => pipeline.cancel();
+    }, [comparing]);
+
     // Process Image
     // This effect handles drawing logic
     useEffect(() => {
       // Ensure we have everything we need and dimensions are set
-      if (!image || !canvasRef.current || dimensions.width === 0 || dimensions.height === 0) return;
-
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
+      if (!source || !canvasRef.current || dimensions.width === 0 || dimensions.height === 0) return;
+      const pipeline = pipelineRef.current;
+      if (!pipeline) return;
+      adjustPipelineRef.current?.cancel();
+      exportRef.current = null;
+      if (tooLarge) {
+        setIsProcessing(false);
+        return;
+      }
 
       // Note: We rely on the React rendered 'width' and 'height' attributes 
       // matching our 'dimensions' state.
@@ -72,44 +196,195 @@ export const DitherCanvas = forwardRef<HTMLCanvasElement, DitherCanvasProps>(
       // Since 'dimensions' update triggers a render, the DOM attributes should be correct
       // by the time this effect runs.
 
-      // Draw original resized
-      ctx.drawImage(image, 0, 0, dimensions.width, dimensions.height);
+      // The worker decodes the file and scales it strip by strip, so no
+      // full-size pixel copy is made here. The visible canvas keeps showing
+      // the previous result until new strips arrive.
+      const { width, height } = dimensions;
+      const scale = getPreviewScale(width, height);
+      const png = scale < 1 ? createPngStream(width, height) : null;
+
+      // Iterative algorithms show every pass as it completes
+      const showIteration = (intermediate: ImageData, completed: number) => {
+        drawRows(canvasRef.current, intermediate, 0, scale);
+        setPass(completed);
+      };
+
+      // Finished rows are drawn as they come in
+      const showStrip = (strip: ImageData, top: number, adjusted?: ImageData) => {
+        drawRows(canvasRef.current, strip, top, scale);
+        if (adjusted) drawRows(sourceRef.current, adjusted, top, scale);
+        png?.addRows(strip.data);
+      };
 
-      // Get Data
-      const imageData = ctx.getImageData(0, 0, dimensions.width, dimensions.height);
-      
-      // Process
       setIsProcessing(true);
-      
-      // Use RequestAnimationFrame to avoid blocking the main thread
-      const animationFrame = requestAnimationFrame(() => {
-         const processed = processImage(imageData, settings);
-         if (canvasRef.current) { // Check if still mounted
-             const currentCtx = canvasRef.current.getContext("2d");
-             if (currentCtx) {
-                 currentCtx.putImageData(processed, 0, 0);
-             }
-         }
-         setIsProcessing(false);
-      });
+      setStopping(false);
+      setProgress(0);
+      setPass(0);
+
+      // Process off the main thread. A newer run (or unmount) supersedes this
+      // one, in which case the pipeline resolves with null and we do nothing.
+      pipeline
+        .run(source.file, width, height, settings, showStrip, setProgress, showIteration, comparingRef.current)
+        .then((processed) => {
+          if (!processed) {
+            png?.abort();
+            return;
+          }
+          if (png) exportRef.current = png.finish();
+          onPlatesChange?.(processed.plates);
+          onMetricsChange?.(processed.metrics);
+          setIsProcessing(false);
+        })
+        .catch((err) => {
+          png?.abort();
+          console.error("Dithering failed", err);
+          setIsProcessing(false);
+        });
+
+      return () => pipeline.cancel();
+
+    }, [source, settings, dimensions]);
+
+    // The job finishes with the pass currently shown, so its strips, plates
+    // and metrics match what's on screen
+    const handleStop = () => {
+      pipelineRef.current?.stop();
+      setStopping(true);
+    };
+
+    // Both panes always show the same part of the image
+    const syncScroll = (from: HTMLDivElement | null, to: HTMLDivElement | null) => {
+      if (!from || !to) return;
+      if (to.scrollLeft !== from.scrollLeft) to.scrollLeft = from.scrollLeft;
+      if (to.scrollTop !== from.scrollTop) to.scrollTop = from.scrollTop;
+    };
+
+    // A newly mounted source pane starts where the result pane is
+    useEffect(() => {
+      if (comparing) syncScroll(resultPaneRef.current, sourcePaneRef.current);
+    }, [comparing]);
+
+    const moveDivider = (event: React.PointerEvent) => {
+      const rect = previewRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0) return;
+      setSwipe(Math.max(0, Math.min(100, ((event.clientX - rect.left) / rect.width) * 100)));
+    };
+
+    const canvasStyle: React.CSSProperties = fit
+      ? { width: "auto", height: "100%", objectFit: "contain", imageRendering: "pixelated" }
+      : {
+          width: dimensions.width ? dimensions.width * zoom : undefined,
+          height: dimensions.height ? dimensions.height * zoom : undefined,
+          imageRendering: "pixelated",
+        };
+
+    const paneClass = `flex flex-1 items-center justify-center p-4 ${fit ? "overflow-hidden" : "overflow-auto"}`;
+    const frameClass = `relative rounded-md border shadow-sm bg-background transition-all ${fit ? "h-full w-full" : ""}`;
 
-      return () => cancelAnimationFrame(animationFrame);
+    // The source pane sits beside the result pane when split, otherwise on
+    // top of it. It stays mounted while switching between comparison modes,
+    // so its canvas keeps its pixels.
+    const sourcePaneStyle: React.CSSProperties =
+      compareMode === "split"
+        ? {}
+        : compareMode === "swipe"
+          ? { position: "absolute", inset: 0, clipPath: `inset(0 ${100 - swipe}% 0 0)` }
+          : { position: "absolute", inset: 0, visibility: compareMode === "hold" && holding ? "visible" : "hidden" };
 
-    }, [image, settings, dimensions]);
+    // Only presses on the image itself; the overlays (like Stop) are siblings
+    // of the panes, so their presses never reach this
+    const hold = compareMode === "hold" ? () => setHolding(true) : undefined;
+    const release = () => setHolding(false);
 
     return (
-        <canvas
-          ref={canvasRef}
-          className={className}
-          width={dimensions.width}
-          height={dimensions.height}
-          style={{
-            ...style,
-            width: style?.height === '100%' ? 'auto' : (style?.width ?? (dimensions.width ? dimensions.width * zoom : undefined)),
-            height: style?.height ?? (dimensions.height ? dimensions.height * zoom : undefined),
-            imageRendering: "pixelated",
-          }}
-        />
+      <div
+        ref={previewRef}
+        className="relative flex flex-1 overflow-hidden"
+        onPointerUp={release}
+        onPointerLeave={release}
+        onPointerCancel={release}
+      >
+        <div
+          ref={resultPaneRef}
+          className={paneClass}
+          onPointerDown={hold}
+          onScroll={() => syncScroll(resultPaneRef.current, sourcePaneRef.current)}
+        >
+          <div className={frameClass}>
+            <canvas
+              ref={canvasRef}
+              className="transition-all"
+              width={previewWidth}
+              height={previewHeight}
+              style={canvasStyle}
+            />
+          </div>
+        </div>
+        {comparing && (
+          <div
+            ref={sourcePaneRef}
+            className={`${paneClass} ${compareMode === "split" ? "border-l" : ""}`}
+            style={sourcePaneStyle}
+            onPointerDown={hold}
+            onScroll={() => syncScroll(sourcePaneRef.current, resultPaneRef.current)}
+          >
+            <div className={frameClass}>
+              <canvas
+                ref={sourceRef}
+                className="transition-all"
+                width={previewWidth}
+                height={previewHeight}
+                style={canvasStyle}
+              />
+            </div>
+          </div>
+        )}
+        {compareMode === "swipe" && (
+          <div
+            className="absolute inset-y-0 z-10 w-4 -translate-x-1/2 cursor-ew-resize touch-none"
+            style={{ left: `${swipe}%` }}
+            onPointerDown={(event) => {
+              event.currentTarget.setPointerCapture(event.pointerId);
+              moveDivider(event);
+            }}
+            onPointerMove={(event) => {
+              if (event.currentTarget.hasPointerCapture(event.pointerId)) moveDivider(event);
+            }}
+          >
+            <div className="mx-auto h-full w-px bg-primary" />
+            <div className="absolute top-1/2 left-1/2 h-8 w-3 -translate-x-1/2 -translate-y-1/2 rounded-sm border bg-background shadow-sm" />
+          </div>
+        )}
+        {tooLarge && (
+          <div className="absolute inset-0 z-20 flex items-center justify-center p-4">
+            <div className="max-w-sm rounded-md border bg-background p-4 text-sm shadow-sm">
+              {getAlgorithm(settings.algorithm).name} works on the whole image at once, up to{" "}
+              {WHOLE_IMAGE_MAX_PIXELS / (1 << 20)} megapixels. Lower the resolution scale to use it.
+            </div>
+          </div>
+        )}
+        {isProcessing && (
+          <div className="pointer-events-none absolute inset-x-0 top-0 z-20 space-y-2 p-2">
+            <Progress value={progress} className="h-1" />
+            {settings.algorithm === "DBS" && (
+              <div className="flex items-center justify-end gap-2">
+                <span className="rounded bg-background/80 px-2 py-1 text-xs font-mono">
+                  Pass {pass} / {settings.dbsIterations}
+                </span>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="pointer-events-auto"
+                  disabled={stopping}
+                  onClick={handleStop}
+                >
+                  {stopping ? "Stopping…" : "Stop"}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
     );
   }
 );
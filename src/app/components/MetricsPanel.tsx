@@ -0,0 +1,75 @@
+import React from "react";
+import { Bar, BarChart, Cell, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "./ui/chart";
+import { DitherMetrics } from "../lib/metrics";
+
+interface MetricsPanelProps {
+  metrics: DitherMetrics | null;
+}
+
+const chartConfig = {
+  share: { label: "Pixels" },
+} satisfies ChartConfig;
+
+const Stat: React.FC<{ label: string; value: string; hint: string }> = ({ label, value, hint }) => (
+  <div className="space-y-0.5">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className="font-mono text-sm">{value}</div>
+    <div className="text-[10px] text-muted-foreground">{hint}</div>
+  </div>
+);
+
+// Quality of the current result against the adjusted source, and how often
+// each palette color ended up being used
+export const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics }) => {
+  if (!metrics) {
+    return <div className="p-4 text-xs text-muted-foreground">Metrics appear after the first render.</div>;
+  }
+
+  const total = metrics.usage.reduce((sum, entry) => sum + entry.count, 0) || 1;
+  const data = metrics.usage.map(({ color, count }) => ({
+    name: `rgb(${color.r}, ${color.g}, ${color.b})`,
+    share: (count / total) * 100,
+  }));
+
+  return (
+    <div className="flex gap-6 p-4">
+      <div className="grid w-56 shrink-0 grid-cols-1 gap-3">
+        <Stat
+          label="PSNR"
+          value={Number.isFinite(metrics.psnr) ? `${metrics.psnr.toFixed(2)} dB` : "∞"}
+          hint="Pixel error, higher is closer"
+        />
+        <Stat label="SSIM" value={metrics.ssim.toFixed(4)} hint="Local structure, 1 is identical" />
+        <Stat
+          label="Low-pass MSE"
+          value={metrics.lowPassMse.toFixed(2)}
+          hint="Tone error seen from a distance, lower is better"
+        />
+      </div>
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="text-xs text-muted-foreground">Palette usage</div>
+        <ChartContainer config={chartConfig} className="aspect-auto h-32 w-full">
+          <BarChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+            <XAxis dataKey="name" tick={false} tickLine={false} axisLine={false} height={4} />
+            <YAxis width={32} tickLine={false} axisLine={false} unit="%" />
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  hideIndicator
+                  formatter={(value) => `${Number(value).toFixed(1)}% of pixels`}
+                />
+              }
+            />
+            <Bar dataKey="share" radius={2} stroke="var(--border)">
+              {data.map((entry) => (
+                <Cell key={entry.name} fill={entry.name} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+      </div>
+    </div>
+  );
+};
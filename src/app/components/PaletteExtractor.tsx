@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Slider } from "./ui/slider";
+import { Color } from "../types";
+import {
+  extractPalette,
+  MAX_EXTRACTED_COLORS,
+  MIN_EXTRACTED_COLORS,
+  PALETTE_EXTRACTION_METHODS,
+  PaletteExtractionMethod,
+} from "../lib/paletteExtraction";
+
+interface PaletteExtractorProps {
+  imageUrl?: string;
+  onExtract: (colors: Color[]) => void;
+}
+
+// Extraction only needs the color distribution, not every pixel
+const SAMPLE_SIZE = 256;
+
+const loadPixels = (url: string) =>
+  new Promise<Uint8ClampedArray>((resolve, reject) => {
+    const img = new Image();
+    img.src = url;
+    img.onload = () => {
+      const scale = Math.min(1, SAMPLE_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return reject(new Error("Canvas unavailable"));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+    };
+    img.onerror = () => reject(new Error("Could not load image"));
+  });
+
+export const PaletteExtractor: React.FC<PaletteExtractorProps> = ({ imageUrl, onExtract }) => {
+  const [method, setMethod] = useState<PaletteExtractionMethod>("Median Cut");
+  const [count, setCount] = useState(8);
+  const [isExtracting, setIsExtracting] = useState(false);
+
+  const handleExtract = async () => {
+    if (!imageUrl) return;
+    setIsExtracting(true);
+    try {
+      const pixels = await loadPixels(imageUrl);
+      const colors = extractPalette(pixels, count, method);
+      if (colors.length > 0) onExtract(colors);
+    } catch (err) {
+      console.error("Palette extraction failed", err);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <Label className="text-sm font-semibold">Extract From Image</Label>
+      <Select value={method} onValueChange={(val) => setMethod(val as PaletteExtractionMethod)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PALETTE_EXTRACTION_METHODS.map((m) => (
+            <SelectItem key={m} value={m}>
+              {m}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Colors</Label>
+          <span className="text-xs text-muted-foreground">{count}</span>
+        </div>
+        <Slider
+          value={[count]}
+          min={MIN_EXTRACTED_COLORS}
+          max={MAX_EXTRACTED_COLORS}
+          onValueChange={([val]) => setCount(val)}
+        />
+      </div>
+      <Button
+        size="sm"
+        variant="secondary"
+        className="w-full"
+        onClick={handleExtract}
+        disabled={!imageUrl || isExtracting}
+      >
+        {isExtracting ? "Extracting..." : "Extract Palette"}
+      </Button>
+    </div>
+  );
+};
@@ -10,16 +10,24 @@ import { Slider } from "./ui/slider";
 import { Button } from "./ui/button";
 import { Label } from "./ui/label";
 import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "./ui/popover";
-import { Trash2 } from "lucide-react";
-import { DitherSettings, AlgorithmName, Color, Palette } from "../types";
+import { Dices, Trash2 } from "lucide-react";
+import { DitherSettings, AlphaAlgorithm, Color, ColorMetric, CustomKernel, Palette, SavedKernel } from "../types";
 import { PRESET_PALETTES } from "../lib/palettes";
+import { HALFTONE_PARAMS, getAlgorithm } from "../lib/algorithms";
+import { randomSeed } from "../lib/random";
+import { CMYK_PLATE_NAMES } from "../lib/cmyk";
+import { COLOR_METRICS } from "../lib/colorMatching";
 
 import { LevelsSlider } from "./LevelsSlider";
+import { PaletteExtractor } from "./PaletteExtractor";
+import { AlgorithmParams, AlgorithmSelect } from "./AlgorithmParams";
+import { loadSavedKernels, storeSavedKernels } from "../lib/customKernel";
 
 interface SettingsPanelProps {
   settings: DitherSettings;
@@ -31,21 +39,7 @@ interface SettingsPanelProps {
   imageUrl?: string;
 }
 
-const ALGORITHMS: AlgorithmName[] = [
-  "Floyd-Steinberg",
-  "Atkinson",
-  "Two-Row Sierra",
-  "Sierra Lite",
-  "Ordered 2x2",
-  "Ordered 4x4",
-  "Ordered 8x8",
-  "Random",
-  "Blue Noise",
-  "Threshold",
-  "Checker",
-  "Circuitry",
-  "Fizz",
-];
+const ALPHA_ALGORITHMS: AlphaAlgorithm[] = ["Threshold", "Ordered 8x8", "Blue Noise", "Floyd-Steinberg"];
 
 const colorToHex = (c: Color) =>
   "#" +
@@ -73,6 +67,22 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   processedHeight,
   imageUrl,
 }) => {
+  const [savedKernels, setSavedKernels] = useState<SavedKernel[]>(loadSavedKernels);
+
+  const updateSavedKernels = (kernels: SavedKernel[]) => {
+    setSavedKernels(kernels);
+    storeSavedKernels(kernels);
+  };
+
+  const saveKernel = (name: string, kernel: CustomKernel) => {
+    // Saving under an existing name replaces it
+    updateSavedKernels([...savedKernels.filter((k) => k.name !== name), { name, kernel }]);
+  };
+
+  const removeSavedKernel = (name: string) => {
+    updateSavedKernels(savedKernels.filter((k) => k.name !== name));
+  };
+
   const handlePalettePreset = (palette: Palette) => {
     updateSettings({
       palette: palette.colors,
@@ -153,6 +163,30 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
               </Button>
             ))}
           </div>
+          {savedKernels.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {savedKernels.map((saved) => (
+                <div key={saved.name} className="group relative">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs"
+                    onClick={() =>
+                      updateSettings({ algorithm: "Custom Kernel", customKernel: saved.kernel })
+                    }
+                  >
+                    {saved.name}
+                  </Button>
+                  <button
+                    onClick={() => removeSavedKernel(saved.name)}
+                    className="absolute -top-1 -right-1 hidden h-4 w-4 items-center justify-center rounded-full bg-destructive text-[10px] text-destructive-foreground opacity-90 hover:opacity-100 group-hover:flex z-10"
+                  >
+                    <Trash2 className="h-2 w-2" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Algorithm Selection */}
@@ -161,24 +195,95 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
           <div className="space-y-4">
             <div className="space-y-2">
               <Label>Algorithm</Label>
-              <Select
+              <AlgorithmSelect
                 value={settings.algorithm}
-                onValueChange={(val) =>
-                  updateSettings({ algorithm: val as AlgorithmName })
-                }
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select algorithm" />
-                </SelectTrigger>
-                <SelectContent>
-                  {ALGORITHMS.map((algo) => (
-                    <SelectItem key={algo} value={algo}>
-                      {algo}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+                onChange={(algorithm) => updateSettings({ algorithm })}
+              />
+              {settings.colorSpace === "CMYK" && (
+                <p className="text-[10px] text-muted-foreground">
+                  CMYK separation screens every plate with the halftone settings below; the
+                  algorithm applies to the other color spaces.
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="linear-light">Linear Light (Gamma-correct)</Label>
+              <Switch
+                id="linear-light"
+                checked={settings.linearLight}
+                onCheckedChange={(checked) => updateSettings({ linearLight: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="alpha-dither">1-bit Transparency</Label>
+              <Switch
+                id="alpha-dither"
+                checked={settings.alphaDither}
+                onCheckedChange={(checked) => updateSettings({ alphaDither: checked })}
+              />
+            </div>
+
+            {settings.alphaDither && (
+              <div className="space-y-2">
+                <Label>Transparency Algorithm</Label>
+                <Select
+                  value={settings.alphaAlgorithm}
+                  onValueChange={(val) => updateSettings({ alphaAlgorithm: val as AlphaAlgorithm })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALPHA_ALGORITHMS.map((algo) => (
+                      <SelectItem key={algo} value={algo}>
+                        {algo}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="seed">Random Seed</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="seed"
+                  type="number"
+                  value={settings.seed}
+                  onChange={(e) => {
+                    const seed = parseInt(e.target.value, 10);
+                    if (!isNaN(seed)) updateSettings({ seed });
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="Re-roll"
+                  onClick={() => updateSettings({ seed: randomSeed() })}
+                >
+                  <Dices className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                Noise and random patterns repeat exactly for the same seed and settings.
+              </p>
             </div>
+
+            {/* CMYK separation replaces the algorithm: its plates are screened
+                with the halftone settings */}
+            <AlgorithmParams
+              params={
+                settings.colorSpace === "CMYK"
+                  ? HALFTONE_PARAMS
+                  : getAlgorithm(settings.algorithm).params
+              }
+              settings={settings}
+              updateSettings={updateSettings}
+              onSaveKernel={saveKernel}
+            />
           </div>
         </div>
 
@@ -234,10 +339,72 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   <SelectItem value="Grayscale">Grayscale</SelectItem>
                   <SelectItem value="1-bit">1-bit Black & White</SelectItem>
                   <SelectItem value="Custom">Custom Palette</SelectItem>
+                  <SelectItem value="CMYK">CMYK Separation</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
+            {settings.colorSpace === "CMYK" && (
+              <div className="space-y-4 rounded-md border p-3">
+                {[
+                  { label: "Black Generation", key: "cmykBlackGeneration" as const },
+                  { label: "Under Color Removal", key: "cmykUnderColorRemoval" as const },
+                ].map((param) => (
+                  <div key={param.key} className="space-y-2">
+                    <div className="flex justify-between">
+                      <Label>{param.label}</Label>
+                      <span className="text-xs text-muted-foreground">{settings[param.key]}%</span>
+                    </div>
+                    <Slider
+                      value={[settings[param.key]]}
+                      min={0}
+                      max={100}
+                      onValueChange={([val]) => updateSettings({ [param.key]: val })}
+                    />
+                  </div>
+                ))}
+                {CMYK_PLATE_NAMES.map((plate, idx) => (
+                  <div key={plate} className="space-y-2">
+                    <div className="flex justify-between">
+                      <Label>{plate} Angle</Label>
+                      <span className="text-xs text-muted-foreground">{settings.cmykAngles[idx]}°</span>
+                    </div>
+                    <Slider
+                      value={[settings.cmykAngles[idx]]}
+                      min={0}
+                      max={90}
+                      onValueChange={([val]) => {
+                        const cmykAngles = [...settings.cmykAngles] as DitherSettings["cmykAngles"];
+                        cmykAngles[idx] = val;
+                        updateSettings({ cmykAngles });
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {settings.colorSpace !== "CMYK" && (
+              <div className="space-y-2">
+                <Label>Color Matching</Label>
+                <Select
+                  value={settings.colorMetric}
+                  onValueChange={(val) => updateSettings({ colorMetric: val as ColorMetric })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COLOR_METRICS.map((metric) => (
+                      <SelectItem key={metric.id} value={metric.id}>
+                        {metric.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {settings.colorSpace === "Grayscale" && (
               <div className="space-y-2">
                  <div className="flex justify-between">
@@ -270,6 +437,11 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 />
             </div>
 
+            <PaletteExtractor
+              imageUrl={imageUrl}
+              onExtract={(colors) => updateSettings({ palette: colors, colorSpace: "Custom" })}
+            />
+
             <div className="space-y-2">
               <Label>Current Palette ({settings.palette.length})</Label>
               <div className="grid grid-cols-6 gap-2">
@@ -90,7 +90,7 @@ ${colorConfig
     const color =
       itemConfig.theme?.[theme as keyof typeof itemConfig.theme] ||
       itemConfig.color;
-    return color ? \`  --color-${key}: ${color};\` : null;
+    return color ? `  --color-${key}: ${color};` : null;
   })
   .join("\n")}
 }
@@ -0,0 +1,50 @@
+import { BLUE_NOISE_SIZES, getBlueNoiseMatrix } from "../blueNoise";
+import { SPREAD_PARAM } from "./ordered";
+import { defineAlgorithm } from "./types";
+import { clamp, getPixelIndex, setPixel } from "./shared";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    blueNoiseSize: number; // Threshold matrix size (16-128), also used by threshold noise and alpha
+  }
+}
+
+// Same palette bias as ordered dithering, but thresholds come from a tiled
+// void-and-cluster matrix instead of a Bayer matrix
+export const blueNoise = defineAlgorithm({
+  id: "Blue Noise",
+  name: "Blue Noise",
+  category: "Ordered",
+  params: [
+    {
+      kind: "select",
+      key: "blueNoiseSize",
+      label: "Noise Texture Size",
+      default: 64,
+      options: BLUE_NOISE_SIZES.map((size) => ({ value: size, label: `${size} x ${size}` })),
+    },
+    SPREAD_PARAM,
+  ],
+  stripCarry: () => 0,
+  run: ({ buffer, width, height, top, settings, getClosestColor, report }) => {
+    const { size, values } = getBlueNoiseMatrix(settings.blueNoiseSize ?? 64);
+    const spread = settings.orderedSpread ?? 64;
+
+    for (let y = 0; y < height; y++) {
+      report(y / height);
+      const row = ((top + y) % size) * size;
+      for (let x = 0; x < width; x++) {
+        const i = getPixelIndex(x, y, width);
+        const threshold = (values[row + (x % size)] + 0.5 / (size * size)) * 255;
+        const bias = (threshold - 128) / 128 * spread;
+
+        const closest = getClosestColor(
+          clamp(buffer[i] + bias),
+          clamp(buffer[i + 1] + bias),
+          clamp(buffer[i + 2] + bias)
+        );
+        setPixel(buffer, i, closest);
+      }
+    }
+  },
+});
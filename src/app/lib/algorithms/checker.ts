@@ -0,0 +1,78 @@
+import { defineAlgorithm } from "./types";
+import { clamp, luminance, setPixel } from "./shared";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    checkerLineFreq: number; // Line frequency across x, radians per pixel (0.05-2)
+    checkerDotFreq: number; // Dot frequency along the lines (0.05-2)
+    checkerBias: number; // Pattern strength (0-255)
+  }
+}
+
+// Vertical lines made of dots that warp based on image luminance
+export const checker = defineAlgorithm({
+  id: "Checker",
+  name: "Checker",
+  category: "Stylized",
+  params: [
+    {
+      kind: "slider",
+      key: "checkerLineFreq",
+      label: "Line Frequency",
+      default: 0.6,
+      min: 0.05,
+      max: 2,
+      step: 0.05,
+      format: (v) => v.toFixed(2),
+    },
+    {
+      kind: "slider",
+      key: "checkerDotFreq",
+      label: "Dot Frequency",
+      default: 0.6,
+      min: 0.05,
+      max: 2,
+      step: 0.05,
+      format: (v) => v.toFixed(2),
+    },
+    { kind: "slider", key: "checkerBias", label: "Pattern Strength", default: 140, min: 0, max: 255 },
+  ],
+  srgbOnly: true,
+  stripCarry: () => 0,
+  run: ({ buffer, width, top, settings, getClosestColor, report }) => {
+    const lineFreq = settings.checkerLineFreq ?? 0.6;
+    const dotFreq = settings.checkerDotFreq ?? 0.6;
+    const strength = settings.checkerBias ?? 140;
+
+    for (let i = 0; i < buffer.length; i += 3) {
+      report(i / buffer.length);
+      const x = (i / 3) % width;
+      const y = top + Math.floor((i / 3) / width);
+
+      const r = buffer[i];
+      const g = buffer[i + 1];
+      const b = buffer[i + 2];
+
+      const lum = luminance(r, g, b); // 0-255
+
+      // 1. Define the vertical lines
+      // We start with a base X frequency (vertical stripes)
+      // We add a 'warp' factor based on luminance to bend the lines
+      const warpStrength = (lum / 255) * 8.0;
+      const xPhase = x * lineFreq + warpStrength;
+
+      // 2. Define the dots along the lines
+      // High frequency Y sine wave creates the "dots" pattern along the vertical line
+      const yPhase = y * dotFreq;
+
+      // 3. Combine to create dotted lines
+      // sin(x) * sin(y) creates a grid of dots. Shifting x based on lum warps the grid.
+      // We threshold the sine wave product to make the dots sharper
+      const signal = Math.sin(xPhase) * Math.sin(yPhase);
+
+      const bias = signal * strength;
+
+      setPixel(buffer, i, getClosestColor(clamp(r + bias), clamp(g + bias), clamp(b + bias)));
+    }
+  },
+});
@@ -0,0 +1,96 @@
+import { defineAlgorithm } from "./types";
+import { clamp, getPixelIndex, luminance, setPixel } from "./shared";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    circuitryTraceSpacing: number; // Pixels between parallel traces (2-32)
+    circuitryTraceWidth: number; // Trace width in pixels (1-16)
+    circuitryViaSpacing: number; // Pixels between vias (8-128)
+  }
+}
+
+// PCB-style traces with sharp angles (only 0°, 45°, 90°, 135°)
+// Traces follow luminance contours but maintain geometric precision
+export const circuitry = defineAlgorithm({
+  id: "Circuitry",
+  name: "Circuitry",
+  category: "Stylized",
+  params: [
+    { kind: "slider", key: "circuitryTraceSpacing", label: "Trace Spacing", default: 8, min: 2, max: 32 },
+    {
+      kind: "slider",
+      key: "circuitryTraceWidth",
+      label: "Trace Width",
+      default: 2,
+      min: 1,
+      // Narrower than the spacing, as applied below
+      max: (settings) => Math.max(2, Math.round(settings.circuitryTraceSpacing)) - 1,
+    },
+    { kind: "slider", key: "circuitryViaSpacing", label: "Via Spacing", default: 32, min: 8, max: 128 },
+  ],
+  srgbOnly: true,
+  stripCarry: () => 0,
+  run: ({ buffer, width, height, top, imageHeight, settings, getClosestColor, report }) => {
+    const traceSpacing = Math.max(2, Math.round(settings.circuitryTraceSpacing ?? 8));
+    // Traces at least as wide as the spacing would merge into a solid fill
+    const traceWidth = Math.min(
+      traceSpacing - 1,
+      Math.max(1, Math.round(settings.circuitryTraceWidth ?? 2))
+    );
+    const viaSpacing = Math.max(1, Math.round(settings.circuitryViaSpacing ?? 32));
+
+    for (let row = 0; row < height; row++) {
+      report(row / height);
+      const y = top + row;
+      for (let x = 0; x < width; x++) {
+        const i = getPixelIndex(x, row, width);
+        const r = buffer[i];
+        const g = buffer[i + 1];
+        const b = buffer[i + 2];
+        const lum = luminance(r, g, b);
+
+        // Divide image into regions based on luminance
+        // Each region gets a distinct trace direction
+        const lumBand = Math.floor((lum / 255) * 8);
+
+        let isTrace = false;
+
+        // Determine trace direction based on luminance band
+        // Use strict geometric angles only
+        const direction = lumBand % 4;
+
+        if (direction === 0) {
+          // Horizontal traces (0°)
+          isTrace = (y % traceSpacing) < traceWidth;
+        } else if (direction === 1) {
+          // Vertical traces (90°)
+          isTrace = (x % traceSpacing) < traceWidth;
+        } else if (direction === 2) {
+          // Diagonal traces (45°)
+          isTrace = ((x + y) % traceSpacing) < traceWidth;
+        } else {
+          // Diagonal traces (135°)
+          isTrace = ((x - y + imageHeight) % traceSpacing) < traceWidth;
+        }
+
+        // Add some via/pad features at intersections
+        const viaSize = 3;
+        const isVia = (x % viaSpacing < viaSize) && (y % viaSpacing < viaSize);
+
+        // Add occasional breaks in traces for realism
+        const hasBreak = (Math.sin(x * 0.13) * Math.sin(y * 0.17) > 0.95);
+
+        let bias = 0;
+        if (isVia) {
+          bias = 140; // Bright via
+        } else if (isTrace && !hasBreak) {
+          bias = 100; // Trace line
+        } else {
+          bias = -100; // Background
+        }
+
+        setPixel(buffer, i, getClosestColor(clamp(r + bias), clamp(g + bias), clamp(b + bias)));
+      }
+    }
+  },
+});
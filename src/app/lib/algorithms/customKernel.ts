@@ -0,0 +1,46 @@
+import { CustomKernel, DitherSettings } from "../../types";
+import { DEFAULT_CUSTOM_KERNEL } from "../customKernel";
+import {
+  ERROR_DIFFUSION_PARAMS,
+  createKernel,
+  kernelReach,
+  runErrorDiffusion,
+} from "./errorDiffusion";
+import { SPREAD_PARAM, runThresholdMatrix } from "./ordered";
+import { defineAlgorithm } from "./types";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    customKernel: CustomKernel;
+  }
+}
+
+// User-defined error-diffusion weights or ordered threshold matrix
+export const customKernel = defineAlgorithm({
+  id: "Custom Kernel",
+  name: "Custom Kernel",
+  category: "Error Diffusion",
+  params: [
+    { kind: "kernel", key: "customKernel", label: "Kernel", default: DEFAULT_CUSTOM_KERNEL },
+    { ...SPREAD_PARAM, visible: (settings) => settings.customKernel.mode === "threshold" },
+    // Diffusion controls only apply to diffusion weights
+    ...ERROR_DIFFUSION_PARAMS.map((param) => ({
+      ...param,
+      visible: (settings: DitherSettings) =>
+        settings.customKernel.mode === "diffusion" && (param.visible?.(settings) ?? true),
+    })),
+  ],
+  stripCarry: ({ customKernel: { mode, matrix, divisor, originX } }) =>
+    mode === "threshold" ? 0 : kernelReach(createKernel(divisor, matrix, originX)),
+  run: (ctx) => {
+    const { mode, matrix, divisor, originX } = ctx.settings.customKernel;
+    if (mode === "threshold") {
+      // Values are treated as levels: shift so the smallest is 0
+      const min = Math.min(...matrix.flat());
+      const map = matrix.map((row) => row.map((v) => v - min));
+      runThresholdMatrix(ctx, map, Math.max(...map.flat()) + 1);
+      return;
+    }
+    runErrorDiffusion(ctx, { kernel: createKernel(divisor, matrix, originX) });
+  },
+});
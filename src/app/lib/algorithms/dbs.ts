@@ -0,0 +1,94 @@
+import { AlgorithmName } from "../../types";
+import { runDirectBinarySearch } from "../dbs";
+import { defineAlgorithm } from "./types";
+import { setPixel } from "./shared";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    dbsInitialAlgorithm: AlgorithmName; // Algorithm producing the starting halftone
+    dbsIterations: number; // Maximum number of passes (1-50)
+  }
+}
+
+// Share of the progress bar taken by the starting halftone
+const INITIAL_PROGRESS = 0.2;
+
+// Refines another algorithm's result for the same adjusted pixels
+export const dbs = defineAlgorithm({
+  id: "DBS",
+  name: "DBS",
+  category: "Iterative",
+  params: [
+    { kind: "algorithm", key: "dbsInitialAlgorithm", label: "Starting Point", default: "Floyd-Steinberg" },
+    {
+      kind: "slider",
+      key: "dbsIterations",
+      label: "Max Passes",
+      default: 10,
+      min: 1,
+      max: 50,
+      hint: "Each pass is shown as it completes; it stops early once no pixel changes.",
+    },
+  ],
+  run: async ({ buffer, width, height, settings, palette, isOpaque, report, writeOutput, dither, onIteration, shouldStop }) => {
+    const target = buffer.slice();
+    const initialAlgorithm = settings.dbsInitialAlgorithm ?? "Floyd-Steinberg";
+    dither(initialAlgorithm === "DBS" ? "Floyd-Steinberg" : initialAlgorithm, (fraction) =>
+      report(fraction * INITIAL_PROGRESS)
+    );
+    if (palette.length === 0) return;
+
+    // Back to palette indices (the buffer only holds palette colors, up to
+    // rounding when it was re-encoded)
+    const indices = new Uint16Array(width * height);
+    const indexCache = new Map<number, number>();
+    for (let p = 0; p < indices.length; p++) {
+      const r = Math.round(buffer[p * 3]);
+      const g = Math.round(buffer[p * 3 + 1]);
+      const b = Math.round(buffer[p * 3 + 2]);
+      const key = (r << 16) | (g << 8) | b;
+      let index = indexCache.get(key);
+      if (index === undefined) {
+        let minDist = Infinity;
+        palette.forEach((c, k) => {
+          const dist = (c.r - r) ** 2 + (c.g - g) ** 2 + (c.b - b) ** 2;
+          if (dist < minDist) {
+            minDist = dist;
+            index = k;
+          }
+        });
+        indexCache.set(key, index!);
+      }
+      indices[p] = index!;
+    }
+
+    // Transparent pixels are frozen and don't count towards the error
+    const fixed = new Uint8Array(width * height);
+    for (let p = 0; p < fixed.length; p++) {
+      if (isOpaque(p)) continue;
+      fixed[p] = 1;
+      setPixel(target, p * 3, palette[indices[p]]);
+    }
+
+    const paint = () => {
+      for (let p = 0; p < indices.length; p++) setPixel(buffer, p * 3, palette[indices[p]]);
+      return writeOutput();
+    };
+
+    await runDirectBinarySearch({
+      width,
+      height,
+      target,
+      colors: palette,
+      indices,
+      fixed,
+      maxPasses: settings.dbsIterations ?? 10,
+      onProgress: (fraction) => report(INITIAL_PROGRESS + fraction * (1 - INITIAL_PROGRESS)),
+      onPass: async (pass) => {
+        onIteration?.(paint(), pass);
+        return !(await shouldStop());
+      },
+    });
+    paint();
+  },
+});
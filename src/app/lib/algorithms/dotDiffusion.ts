@@ -0,0 +1,150 @@
+import { defineAlgorithm } from "./types";
+import { getPixelIndex, setPixel } from "./shared";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    dotDiffusionClassMatrix: DotDiffusionClassMatrix; // Order in which pixels are processed
+  }
+}
+
+export type DotDiffusionClassMatrix = "Knuth 8x8" | "16x16";
+
+// --- Dot Diffusion ---
+
+// Knuth's class matrix ("Digital Halftones by Dot Diffusion", 1987). Pixels
+// are processed class by class and pass their error only to neighbours of a
+// higher class. It has just two "barons" (cells with no such neighbour,
+// whose error is lost), which keeps tone drift small.
+const KNUTH_CLASS_MATRIX = [
+  [34, 48, 40, 32, 29, 15, 23, 31],
+  [42, 58, 56, 53, 21, 5, 7, 10],
+  [50, 62, 61, 45, 13, 1, 2, 18],
+  [38, 46, 54, 37, 25, 17, 9, 26],
+  [28, 14, 22, 30, 35, 49, 41, 33],
+  [20, 4, 6, 11, 43, 59, 57, 52],
+  [12, 0, 3, 19, 51, 63, 60, 44],
+  [24, 16, 8, 27, 39, 47, 55, 36],
+];
+
+// Found for this implementation by a pairwise class swap search, with the
+// criterion Mese and Vaidyanathan used for their optimized matrices: the
+// Gaussian-filtered (sigma 2) error of flat grays, averaged over 127 levels.
+// That error is about a quarter lower than with Knuth's matrix, at the cost
+// of more barons; the pattern also repeats every 16 pixels instead of 8.
+const CLASS_MATRIX_16 = [
+  [59, 25, 26, 49, 11, 161, 247, 3, 187, 144, 207, 216, 122, 24, 154, 40],
+  [190, 52, 84, 30, 208, 246, 180, 236, 42, 107, 23, 237, 39, 27, 135, 114],
+  [229, 156, 138, 92, 55, 142, 202, 47, 143, 120, 146, 162, 45, 18, 93, 41],
+  [188, 28, 104, 132, 248, 204, 124, 193, 177, 53, 140, 126, 206, 94, 173, 245],
+  [88, 148, 5, 249, 33, 141, 159, 66, 46, 65, 70, 74, 220, 36, 152, 137],
+  [15, 7, 174, 22, 17, 60, 14, 200, 199, 155, 198, 87, 226, 43, 238, 195],
+  [101, 163, 50, 129, 75, 19, 108, 170, 203, 31, 109, 215, 111, 254, 38, 168],
+  [185, 12, 106, 235, 244, 63, 10, 83, 91, 211, 82, 1, 210, 9, 100, 169],
+  [209, 184, 34, 8, 4, 175, 172, 67, 201, 239, 116, 13, 147, 221, 98, 131],
+  [225, 54, 178, 58, 192, 0, 128, 212, 81, 35, 145, 167, 231, 64, 165, 243],
+  [176, 73, 57, 224, 158, 113, 69, 181, 251, 250, 194, 110, 227, 61, 253, 189],
+  [78, 79, 121, 240, 71, 151, 228, 218, 99, 118, 102, 166, 90, 149, 123, 127],
+  [103, 77, 130, 223, 217, 125, 234, 86, 242, 134, 112, 89, 48, 150, 139, 62],
+  [117, 68, 160, 219, 171, 191, 196, 51, 2, 213, 95, 233, 153, 222, 164, 182],
+  [85, 186, 44, 136, 76, 133, 6, 32, 119, 37, 255, 241, 232, 230, 56, 183],
+  [72, 179, 105, 115, 97, 96, 16, 252, 20, 80, 29, 197, 157, 21, 214, 205],
+];
+
+const CLASS_MATRICES: Record<DotDiffusionClassMatrix, number[][]> = {
+  "Knuth 8x8": KNUTH_CLASS_MATRIX,
+  "16x16": CLASS_MATRIX_16,
+};
+
+// Error never crosses these bands, so each one is a tile that can be dithered
+// on its own. A multiple of both matrix sizes.
+const BAND_ROWS = 128;
+
+// Orthogonal neighbours get twice the weight of diagonal ones
+const DOT_DIFFUSION_NEIGHBOURS = [
+  { x: -1, y: -1, w: 1 },
+  { x: 0, y: -1, w: 2 },
+  { x: 1, y: -1, w: 1 },
+  { x: -1, y: 0, w: 2 },
+  { x: 1, y: 0, w: 2 },
+  { x: -1, y: 1, w: 1 },
+  { x: 0, y: 1, w: 2 },
+  { x: 1, y: 1, w: 1 },
+];
+
+// All pixels of one class depend only on lower classes, never on each other,
+// so each class pass could be split across workers, as could the bands
+export const dotDiffusion = defineAlgorithm({
+  id: "Dot Diffusion",
+  name: "Dot Diffusion",
+  category: "Error Diffusion",
+  params: [
+    {
+      kind: "select",
+      key: "dotDiffusionClassMatrix",
+      label: "Class Matrix",
+      default: "Knuth 8x8",
+      options: [
+        { value: "Knuth 8x8", label: "Knuth 8 x 8" },
+        { value: "16x16", label: "Optimized 16 x 16" },
+      ],
+    },
+  ],
+  // Strips are made of whole bands, so nothing carries over
+  stripCarry: () => 0,
+  stripAlign: () => BAND_ROWS,
+  run: ({ buffer, width, height, top, settings, getClosestColor, isOpaque, report }) => {
+    const classes = CLASS_MATRICES[settings.dotDiffusionClassMatrix] ?? KNUTH_CLASS_MATRIX;
+    const size = classes.length;
+    const classCount = size * size;
+    const cells: { x: number; y: number }[] = [];
+    for (let cy = 0; cy < size; cy++) {
+      for (let cx = 0; cx < size; cx++) cells[classes[cy][cx]] = { x: cx, y: cy };
+    }
+    // Classes follow image rows; strips start on a band
+    const classAt = (x: number, y: number) => classes[(top + y) % size][x % size];
+
+    for (let bandTop = 0; bandTop < height; bandTop += BAND_ROWS) {
+      const bandBottom = Math.min(height, bandTop + BAND_ROWS);
+      for (let c = 0; c < classCount; c++) {
+        report((bandTop + ((bandBottom - bandTop) * c) / classCount) / height);
+        const cell = cells[c];
+        for (let y = bandTop + cell.y; y < bandBottom; y += size) {
+          for (let x = cell.x; x < width; x += size) {
+            const i = getPixelIndex(x, y, width);
+            const r = buffer[i];
+            const g = buffer[i + 1];
+            const b = buffer[i + 2];
+            const closest = getClosestColor(r, g, b);
+            setPixel(buffer, i, closest);
+            if (!isOpaque(y * width + x)) continue;
+
+            // Only opaque neighbours in the band that are still unprocessed
+            // take a share
+            let total = 0;
+            for (const n of DOT_DIFFUSION_NEIGHBOURS) {
+              const nx = x + n.x;
+              const ny = y + n.y;
+              if (nx < 0 || nx >= width || ny < bandTop || ny >= bandBottom) continue;
+              if (classAt(nx, ny) > c && isOpaque(ny * width + nx)) total += n.w;
+            }
+            if (total === 0) continue; // Baron
+
+            const errR = (r - closest.r) / total;
+            const errG = (g - closest.g) / total;
+            const errB = (b - closest.b) / total;
+            for (const n of DOT_DIFFUSION_NEIGHBOURS) {
+              const nx = x + n.x;
+              const ny = y + n.y;
+              if (nx < 0 || nx >= width || ny < bandTop || ny >= bandBottom) continue;
+              if (classAt(nx, ny) <= c || !isOpaque(ny * width + nx)) continue;
+              const nIdx = getPixelIndex(nx, ny, width);
+              buffer[nIdx] += errR * n.w;
+              buffer[nIdx + 1] += errG * n.w;
+              buffer[nIdx + 2] += errB * n.w;
+            }
+          }
+        }
+      }
+    }
+  },
+});
@@ -0,0 +1,331 @@
+import { getBlueNoiseMatrix } from "../blueNoise";
+import { Coefficients } from "../variableCoefficients";
+import { AlgorithmParam, DitherContext, defineAlgorithm } from "./types";
+import { luminance } from "./shared";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    serpentine: boolean; // Alternate scan direction every row
+    diffusionStrength: number; // % of the error passed on (0-100)
+    errorClamp: number; // Max error per channel (1-255, 255 = unbounded)
+    thresholdPerturbation: number; // Threshold noise amount (0-100)
+    perturbationType: "Random" | "Blue Noise";
+  }
+}
+
+// --- Kernels ---
+
+export type Kernel = {
+  divisor: number;
+  items: { x: number; y: number; w: number }[]; // x, y offset and weight
+};
+
+// Builds a kernel from a weight grid, the way kernels are usually published:
+// the first row holds the current pixel at column originX, later rows sit
+// below it. FS:
+//   X  7
+// 3 5  1
+// matrix: [[0, 0, 7], [3, 5, 1]], originX 1
+// Only pixels *after* the current one in raster order can receive error, so
+// first-row weights at or left of the origin are ignored.
+export const createKernel = (divisor: number, matrix: number[][], originX: number): Kernel => {
+  const kernel: Kernel = { divisor, items: [] };
+  for (let y = 0; y < matrix.length; y++) {
+    for (let x = 0; x < matrix[y].length; x++) {
+      const weight = matrix[y][x];
+      if (weight === 0 || (y === 0 && x <= originX)) continue;
+      kernel.items.push({ x: x - originX, y, w: weight });
+    }
+  }
+  return kernel;
+};
+
+export const KERNELS = {
+  "Floyd-Steinberg": {
+    divisor: 16,
+    items: [
+      { x: 1, y: 0, w: 7 },
+      { x: -1, y: 1, w: 3 },
+      { x: 0, y: 1, w: 5 },
+      { x: 1, y: 1, w: 1 },
+    ],
+  },
+  "Atkinson": {
+    divisor: 8,
+    items: [
+      { x: 1, y: 0, w: 1 },
+      { x: 2, y: 0, w: 1 },
+      { x: -1, y: 1, w: 1 },
+      { x: 0, y: 1, w: 1 },
+      { x: 1, y: 1, w: 1 },
+      { x: 0, y: 2, w: 1 },
+    ],
+  },
+  "Jarvis-Judice-Ninke": {
+    divisor: 48,
+    items: [
+      { x: 1, y: 0, w: 7 },
+      { x: 2, y: 0, w: 5 },
+      { x: -2, y: 1, w: 3 },
+      { x: -1, y: 1, w: 5 },
+      { x: 0, y: 1, w: 7 },
+      { x: 1, y: 1, w: 5 },
+      { x: 2, y: 1, w: 3 },
+      { x: -2, y: 2, w: 1 },
+      { x: -1, y: 2, w: 3 },
+      { x: 0, y: 2, w: 5 },
+      { x: 1, y: 2, w: 3 },
+      { x: 2, y: 2, w: 1 },
+    ],
+  },
+  "Stucki": {
+    divisor: 42,
+    items: [
+      { x: 1, y: 0, w: 8 },
+      { x: 2, y: 0, w: 4 },
+      { x: -2, y: 1, w: 2 },
+      { x: -1, y: 1, w: 4 },
+      { x: 0, y: 1, w: 8 },
+      { x: 1, y: 1, w: 4 },
+      { x: 2, y: 1, w: 2 },
+      { x: -2, y: 2, w: 1 },
+      { x: -1, y: 2, w: 2 },
+      { x: 0, y: 2, w: 4 },
+      { x: 1, y: 2, w: 2 },
+      { x: 2, y: 2, w: 1 },
+    ],
+  },
+  "Burkes": {
+    divisor: 32,
+    items: [
+      { x: 1, y: 0, w: 8 },
+      { x: 2, y: 0, w: 4 },
+      { x: -2, y: 1, w: 2 },
+      { x: -1, y: 1, w: 4 },
+      { x: 0, y: 1, w: 8 },
+      { x: 1, y: 1, w: 4 },
+      { x: 2, y: 1, w: 2 },
+    ],
+  },
+  "Sierra": {
+    divisor: 32,
+    items: [
+      { x: 1, y: 0, w: 5 },
+      { x: 2, y: 0, w: 3 },
+      { x: -2, y: 1, w: 2 },
+      { x: -1, y: 1, w: 4 },
+      { x: 0, y: 1, w: 5 },
+      { x: 1, y: 1, w: 4 },
+      { x: 2, y: 1, w: 2 },
+      { x: -1, y: 2, w: 2 },
+      { x: 0, y: 2, w: 3 },
+      { x: 1, y: 2, w: 2 },
+    ],
+  },
+  "Two-Row Sierra": {
+    divisor: 16,
+    items: [
+      { x: 1, y: 0, w: 4 },
+      { x: 2, y: 0, w: 3 },
+      { x: -2, y: 1, w: 1 },
+      { x: -1, y: 1, w: 2 },
+      { x: 0, y: 1, w: 3 },
+      { x: 1, y: 1, w: 2 },
+      { x: 2, y: 1, w: 1 },
+    ],
+  },
+  "Sierra Lite": {
+    divisor: 4,
+    items: [
+      { x: 1, y: 0, w: 2 },
+      { x: -1, y: 1, w: 1 },
+      { x: 0, y: 1, w: 1 },
+    ],
+  },
+} satisfies Record<string, Kernel>;
+
+// One kernel per level (0-255): right, down-left, down
+const createVariableKernels = (getCoefficients: (level: number) => Coefficients): Kernel[] =>
+  Array.from({ length: 256 }, (_, level) => {
+    const [r, dl, d] = getCoefficients(level);
+    return {
+      divisor: r + dl + d,
+      items: [
+        { x: 1, y: 0, w: r },
+        { x: -1, y: 1, w: dl },
+        { x: 0, y: 1, w: d },
+      ],
+    };
+  });
+
+// --- Parameters ---
+
+// Diffusion controls: how much of the error is passed on, the largest error
+// any pixel may pass on, and noise added to the quantization decision only
+export const DIFFUSION_PARAMS: AlgorithmParam[] = [
+  {
+    kind: "slider",
+    key: "diffusionStrength",
+    label: "Diffusion Strength",
+    default: 100,
+    min: 0,
+    max: 100,
+    format: (v) => `${v}%`,
+  },
+  {
+    kind: "slider",
+    key: "errorClamp",
+    label: "Max Error",
+    default: 255,
+    min: 1,
+    max: 255,
+    format: (v) => (v >= 255 ? "Off" : String(v)),
+  },
+  { kind: "slider", key: "thresholdPerturbation", label: "Threshold Noise", default: 0, min: 0, max: 100 },
+  {
+    kind: "select",
+    key: "perturbationType",
+    label: "Threshold Noise Type",
+    default: "Random",
+    options: [
+      { value: "Random", label: "Random" },
+      { value: "Blue Noise", label: "Blue Noise" },
+    ],
+    visible: (settings) => settings.thresholdPerturbation > 0,
+  },
+];
+
+export const ERROR_DIFFUSION_PARAMS: AlgorithmParam[] = [
+  { kind: "toggle", key: "serpentine", label: "Serpentine Scan", default: false },
+  ...DIFFUSION_PARAMS,
+];
+
+// --- Error Diffusion ---
+
+type DiffusionOptions =
+  | { kernel: Kernel }
+  // Variable-coefficient kernels, chosen per pixel from its input level.
+  // `modulation` adds level-dependent threshold noise (Zhou-Fang).
+  | { getCoefficients: (level: number) => Coefficients; modulation?: (level: number) => number };
+
+export const runErrorDiffusion = (
+  { buffer, input, width, height, top, settings, getClosestColor, isOpaque, random, report }: DitherContext,
+  options: DiffusionOptions
+) => {
+  // Variable-coefficient kernels are chosen by the pixel's own level before
+  // any error reached it, including error carried over from the last strip,
+  // so the tables need an untouched copy of the input
+  const variableKernels =
+    "getCoefficients" in options ? createVariableKernels(options.getCoefficients) : null;
+  const kernel = "kernel" in options ? options.kernel : null;
+  const modulation = "modulation" in options ? options.modulation : undefined;
+  const source = variableKernels ? (input === buffer ? buffer.slice() : input) : null;
+  const levelAt = (idx: number) =>
+    Math.max(0, Math.min(255, Math.round(luminance(source![idx], source![idx + 1], source![idx + 2]))));
+  // Both variable-coefficient papers assume a serpentine scan
+  const serpentine = settings.serpentine || !!variableKernels;
+
+  // The error is still measured from the unperturbed value
+  const strength = (settings.diffusionStrength ?? 100) / 100;
+  const maxError = settings.errorClamp ?? 255;
+  const perturbation = ((settings.thresholdPerturbation ?? 0) / 100) * 64;
+  const noiseMatrix =
+    perturbation > 0 && settings.perturbationType === "Blue Noise"
+      ? getBlueNoiseMatrix(settings.blueNoiseSize ?? 64)
+      : null;
+  const perturb = (x: number, y: number) => {
+    if (perturbation === 0) return 0;
+    if (noiseMatrix) {
+      const { size, values } = noiseMatrix;
+      return (values[(y % size) * size + (x % size)] - 0.5) * 2 * perturbation;
+    }
+    return (random() - 0.5) * 2 * perturbation;
+  };
+  const limit = (err: number) => Math.max(-maxError, Math.min(maxError, err)) * strength;
+
+  // Includes the rows below the strip, if any
+  const bufferRows = buffer.length / 3 / width;
+
+  // The float buffer can exceed 0-255 temporarily, which error propagation relies on
+  for (let y = 0; y < height; y++) {
+    report(y / height);
+    // Serpentine scan: odd rows run right-to-left with the kernel mirrored,
+    // which breaks up the diagonal "worm" artifacts of a fixed raster order
+    const reverse = serpentine && (top + y) % 2 === 1;
+    const dir = reverse ? -1 : 1;
+
+    for (let step = 0; step < width; step++) {
+      const x = reverse ? width - 1 - step : step;
+      const idx = (y * width + x) * 3;
+      const oldR = buffer[idx];
+      const oldG = buffer[idx + 1];
+      const oldB = buffer[idx + 2];
+
+      if (!isOpaque(y * width + x)) {
+        const closest = getClosestColor(oldR, oldG, oldB);
+        buffer[idx] = closest.r;
+        buffer[idx + 1] = closest.g;
+        buffer[idx + 2] = closest.b;
+        continue;
+      }
+
+      let noise = perturb(x, top + y);
+      let pixelKernel = kernel!;
+      if (variableKernels) {
+        const level = levelAt(idx);
+        pixelKernel = variableKernels[level];
+        if (modulation) noise += (random() - 0.5) * modulation(level) * 128;
+      }
+      const closest = getClosestColor(oldR + noise, oldG + noise, oldB + noise);
+
+      // Quantize
+      buffer[idx] = closest.r;
+      buffer[idx + 1] = closest.g;
+      buffer[idx + 2] = closest.b;
+
+      // Calculate Error
+      const errR = limit(oldR - closest.r);
+      const errG = limit(oldG - closest.g);
+      const errB = limit(oldB - closest.b);
+
+      // Distribute Error
+      for (const item of pixelKernel.items) {
+        const nx = x + item.x * dir;
+        const ny = y + item.y;
+
+        if (nx >= 0 && nx < width && ny >= 0 && ny < bufferRows && isOpaque(ny * width + nx)) {
+          const nIdx = (ny * width + nx) * 3;
+          const factor = item.w / pixelKernel.divisor;
+
+          buffer[nIdx] += errR * factor;
+          buffer[nIdx + 1] += errG * factor;
+          buffer[nIdx + 2] += errB * factor;
+        }
+      }
+    }
+  }
+};
+
+// Rows below the current one a kernel reaches
+export const kernelReach = (kernel: Kernel) => Math.max(0, ...kernel.items.map((item) => item.y));
+
+// --- Algorithms ---
+
+const kernelAlgorithm = <Id extends keyof typeof KERNELS>(id: Id) =>
+  defineAlgorithm({
+    id,
+    name: id,
+    category: "Error Diffusion",
+    params: ERROR_DIFFUSION_PARAMS,
+    stripCarry: () => kernelReach(KERNELS[id]),
+    run: (ctx) => runErrorDiffusion(ctx, { kernel: KERNELS[id] }),
+  });
+
+export const floydSteinberg = kernelAlgorithm("Floyd-Steinberg");
+export const atkinson = kernelAlgorithm("Atkinson");
+export const jarvisJudiceNinke = kernelAlgorithm("Jarvis-Judice-Ninke");
+export const stucki = kernelAlgorithm("Stucki");
+export const burkes = kernelAlgorithm("Burkes");
+export const sierra = kernelAlgorithm("Sierra");
+export const twoRowSierra = kernelAlgorithm("Two-Row Sierra");
+export const sierraLite = kernelAlgorithm("Sierra Lite");
@@ -0,0 +1,86 @@
+import { defineAlgorithm } from "./types";
+import { clamp, luminance, setPixel } from "./shared";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    fizzBands: number; // Luminance bands, each with its own direction (2-32)
+    fizzFrequency: number; // Line frequency (0.1-2)
+  }
+}
+
+// Fizz: Duplicate of OLD Circuitry (before the straight lines change)
+// Returns to the more contour-following, multi-angle style with noise
+export const fizz = defineAlgorithm({
+  id: "Fizz",
+  name: "Fizz",
+  category: "Stylized",
+  params: [
+    { kind: "slider", key: "fizzBands", label: "Bands", default: 12, min: 2, max: 32 },
+    {
+      kind: "slider",
+      key: "fizzFrequency",
+      label: "Line Frequency",
+      default: 0.8,
+      min: 0.1,
+      max: 2,
+      step: 0.05,
+      format: (v) => v.toFixed(2),
+    },
+  ],
+  srgbOnly: true,
+  stripCarry: () => 0,
+  run: ({ buffer, width, top, settings, getClosestColor, report }) => {
+    const bands = Math.max(1, Math.round(settings.fizzBands ?? 12));
+    const freq = settings.fizzFrequency ?? 0.8;
+
+    for (let i = 0; i < buffer.length; i += 3) {
+      report(i / buffer.length);
+      const x = (i / 3) % width;
+      const y = top + Math.floor((i / 3) / width);
+
+      const r = buffer[i];
+      const g = buffer[i + 1];
+      const b = buffer[i + 2];
+
+      const lum = luminance(r, g, b); // 0-255
+
+      // Quantize luminance to separate image into regions (isophotes)
+      const lumLevel = Math.floor((lum / 255) * bands);
+
+      let phase = 0;
+
+      // We alternate directions to delineate contours
+      // Original logic with 3 directions
+      const type = lumLevel % 3;
+
+      if (type === 0) {
+        // Vertical Lines (90 deg)
+        phase = x * freq;
+      } else if (type === 1) {
+        // Diagonal (45 deg)
+        phase = (x + y) * (freq * 0.707);
+      } else {
+        // Diagonal (135 deg)
+        phase = (x - y) * (freq * 0.707);
+      }
+
+      // Shift phase per band so lines don't align at boundaries
+      phase += lumLevel * 100;
+
+      // Create sharp traces
+      const traceSignal = Math.abs(Math.sin(phase));
+      const isTrace = traceSignal < 0.25; // Thinner, crisper traces
+
+      let bias = 0;
+      if (isTrace) {
+        bias = 120;
+        // Circuitry noise: break lines occasionally
+        if (Math.sin(x * 0.23) * Math.sin(y * 0.17) > 0.8) bias = -50;
+      } else {
+        bias = -120;
+      }
+
+      setPixel(buffer, i, getClosestColor(clamp(r + bias), clamp(g + bias), clamp(b + bias)));
+    }
+  },
+});
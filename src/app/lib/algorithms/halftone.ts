@@ -0,0 +1,81 @@
+import { HalftoneDotShape } from "../../types";
+import { BASE_DPI, HALFTONE_DOT_SHAPES, createHalftoneScreen } from "../halftone";
+import { AlgorithmParam, defineAlgorithm } from "./types";
+import { clamp, getPixelIndex, setPixel } from "./shared";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    halftoneLpi: number; // Screen frequency in lines per inch (10-150)
+    halftoneAngle: number; // Screen angle in degrees (0-90)
+    halftoneDotShape: HalftoneDotShape;
+  }
+}
+
+// Also used for the plates of CMYK separation, which set their own angles
+export const HALFTONE_PARAMS: AlgorithmParam[] = [
+  {
+    kind: "slider",
+    key: "halftoneLpi",
+    label: "Screen Frequency",
+    default: 40,
+    min: 10,
+    max: 150,
+    format: (lpi, settings) =>
+      `${lpi} LPI (${((BASE_DPI * settings.resolutionScale) / lpi).toFixed(1)} px)`,
+  },
+  {
+    kind: "slider",
+    key: "halftoneAngle",
+    label: "Screen Angle",
+    default: 45,
+    min: 0,
+    max: 90,
+    format: (v) => `${v}°`,
+    visible: (settings) => settings.colorSpace !== "CMYK",
+  },
+  {
+    kind: "select",
+    key: "halftoneDotShape",
+    label: "Dot Shape",
+    default: "Round",
+    options: HALFTONE_DOT_SHAPES.map((shape) => ({ value: shape, label: shape })),
+  },
+];
+
+// Clustered-dot AM screen. The threshold offset spans one palette step per
+// channel, so a two-level channel is a plain threshold against the screen
+// and multi-level palettes get dots between neighbouring levels.
+export const halftone = defineAlgorithm({
+  id: "Halftone",
+  name: "Halftone",
+  category: "Ordered",
+  params: HALFTONE_PARAMS,
+  stripCarry: () => 0,
+  run: ({ buffer, width, height, top, settings, palette, getClosestColor, report }) => {
+    const screen = createHalftoneScreen(
+      settings.halftoneLpi ?? 40,
+      settings.halftoneAngle ?? 45,
+      settings.halftoneDotShape ?? "Round",
+      BASE_DPI * settings.resolutionScale
+    );
+    const [stepR, stepG, stepB] = (["r", "g", "b"] as const).map((ch) => {
+      const levels = new Set(palette.map((c) => Math.round(c[ch]))).size;
+      return levels > 1 ? 255 / (levels - 1) : 255;
+    });
+
+    for (let y = 0; y < height; y++) {
+      report(y / height);
+      for (let x = 0; x < width; x++) {
+        const i = getPixelIndex(x, y, width);
+        const t = screen(x, top + y) - 0.5;
+
+        const closest = getClosestColor(
+          clamp(buffer[i] + t * stepR),
+          clamp(buffer[i + 1] + t * stepG),
+          clamp(buffer[i + 2] + t * stepB)
+        );
+        setPixel(buffer, i, closest);
+      }
+    }
+  },
+});
@@ -0,0 +1,92 @@
+import { AlgorithmSettings } from "../../types";
+import { AlgorithmCategory, DitherAlgorithm } from "./types";
+import {
+  atkinson,
+  burkes,
+  floydSteinberg,
+  jarvisJudiceNinke,
+  sierra,
+  sierraLite,
+  stucki,
+  twoRowSierra,
+} from "./errorDiffusion";
+import { ostromoukhov } from "./ostromoukhov";
+import { zhouFang } from "./zhouFang";
+import { riemersma } from "./riemersma";
+import { dotDiffusion } from "./dotDiffusion";
+import { customKernel } from "./customKernel";
+import { ordered2x2, ordered4x4, ordered8x8 } from "./ordered";
+import { knollPattern, yliluoma } from "./pattern";
+import { blueNoise } from "./blueNoise";
+import { halftone } from "./halftone";
+import { threshold } from "./threshold";
+import { random } from "./random";
+import { dbs } from "./dbs";
+import { checker } from "./checker";
+import { circuitry } from "./circuitry";
+import { fizz } from "./fizz";
+
+// --- Algorithm Registry ---
+// Every dithering algorithm, in menu order. Its module declares the settings
+// it reads and their defaults, from which the settings panel builds its
+// controls. Adding an algorithm takes its module and one entry here.
+
+export const ALGORITHM_REGISTRY = [
+  floydSteinberg,
+  atkinson,
+  jarvisJudiceNinke,
+  stucki,
+  burkes,
+  sierra,
+  twoRowSierra,
+  sierraLite,
+  ostromoukhov,
+  zhouFang,
+  riemersma,
+  dotDiffusion,
+  customKernel,
+  ordered2x2,
+  ordered4x4,
+  ordered8x8,
+  yliluoma,
+  knollPattern,
+  blueNoise,
+  halftone,
+  threshold,
+  random,
+  dbs,
+  checker,
+  circuitry,
+  fizz,
+] as const;
+
+export type AlgorithmName = (typeof ALGORITHM_REGISTRY)[number]["id"];
+
+export const ALGORITHM_CATEGORIES: AlgorithmCategory[] = [
+  "Error Diffusion",
+  "Ordered",
+  "Basic",
+  "Iterative",
+  "Stylized",
+];
+
+const BY_ID = new Map<string, DitherAlgorithm>(
+  ALGORITHM_REGISTRY.map((algorithm) => [algorithm.id, algorithm])
+);
+
+// Unknown ids (e.g. from older saved settings) fall back to Floyd-Steinberg
+export const getAlgorithm = (id: string): DitherAlgorithm => BY_ID.get(id) ?? floydSteinberg;
+
+// Every algorithm setting at the default its param declares. Params shared by
+// several algorithms (e.g. the diffusion controls) declare the same default.
+export const ALGORITHM_DEFAULTS = Object.fromEntries(
+  ALGORITHM_REGISTRY.flatMap((algorithm) =>
+    algorithm.params.map((param) => [param.key, param.default])
+  )
+) as unknown as AlgorithmSettings;
+
+export const getAlgorithmsByCategory = (category: AlgorithmCategory): DitherAlgorithm[] =>
+  ALGORITHM_REGISTRY.filter((algorithm) => algorithm.category === category);
+
+export { HALFTONE_PARAMS } from "./halftone";
+export * from "./types";
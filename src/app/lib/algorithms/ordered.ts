@@ -0,0 +1,62 @@
+import { AlgorithmParam, DitherContext, defineAlgorithm } from "./types";
+import { bayer2, bayer4, bayer8, clamp, getPixelIndex, setPixel } from "./shared";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    orderedSpread: number; // Threshold bias strength (0-128), also used by Blue Noise
+  }
+}
+
+// --- Ordered Dithering ---
+
+// How far thresholds push colors towards the neighbouring palette entries
+export const SPREAD_PARAM: AlgorithmParam = {
+  kind: "slider",
+  key: "orderedSpread",
+  label: "Spread",
+  default: 64,
+  min: 0,
+  max: 128,
+};
+
+// Biases each pixel by its cell's threshold, then quantizes. `levels` is the
+// number of distinct thresholds in the map.
+export const runThresholdMatrix = (
+  { buffer, width, height, top, settings, getClosestColor, report }: DitherContext,
+  map: number[][],
+  levels: number
+) => {
+  const spread = settings.orderedSpread ?? 64;
+  for (let y = 0; y < height; y++) {
+    report(y / height);
+    for (let x = 0; x < width; x++) {
+      const i = getPixelIndex(x, y, width);
+      const threshold = ((map[(top + y) % map.length][x % map[0].length] + 0.5) / levels) * 255;
+
+      // Adding the threshold to the color before quantizing (rather than
+      // comparing luminance) works for arbitrary palettes
+      const bias = (threshold - 128) / 128 * spread; // -spread to spread
+
+      const closest = getClosestColor(
+        clamp(buffer[i] + bias),
+        clamp(buffer[i + 1] + bias),
+        clamp(buffer[i + 2] + bias)
+      );
+      setPixel(buffer, i, closest);
+    }
+  }
+};
+
+const orderedAlgorithm = <Id extends string>(id: Id, map: number[][]) =>
+  defineAlgorithm({
+    id,
+    name: id,
+    category: "Ordered",
+    params: [SPREAD_PARAM],
+    stripCarry: () => 0,
+    run: (ctx) => runThresholdMatrix(ctx, map, map.length * map.length),
+  });
+
+export const ordered2x2 = orderedAlgorithm("Ordered 2x2", bayer2);
+export const ordered4x4 = orderedAlgorithm("Ordered 4x4", bayer4);
+export const ordered8x8 = orderedAlgorithm("Ordered 8x8", bayer8);
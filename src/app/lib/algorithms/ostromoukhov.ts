@@ -0,0 +1,14 @@
+import { getOstromoukhovCoefficients } from "../variableCoefficients";
+import { DIFFUSION_PARAMS, runErrorDiffusion } from "./errorDiffusion";
+import { defineAlgorithm } from "./types";
+
+// Variable-coefficient error diffusion. The tables are always run serpentine,
+// so there is no scan toggle.
+export const ostromoukhov = defineAlgorithm({
+  id: "Ostromoukhov",
+  name: "Ostromoukhov",
+  category: "Error Diffusion",
+  params: DIFFUSION_PARAMS,
+  stripCarry: () => 1, // Right, down-left and down
+  run: (ctx) => runErrorDiffusion(ctx, { getCoefficients: getOstromoukhovCoefficients }),
+});
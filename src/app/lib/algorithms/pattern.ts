@@ -0,0 +1,125 @@
+import { Color } from "../../types";
+import { ColorMatcher } from "../colorMatching";
+import { DitherContext, defineAlgorithm } from "./types";
+import { bayer8, clamp, getPixelIndex, luminance, setPixel } from "./shared";
+
+// --- Pattern Dithering ---
+// Palette-aware ordered dithering: for each input color, build a "plan" of
+// palette colors whose average approximates it, sort it by luminance and let
+// the Bayer cell pick one entry. Plans depend only on the input color, so
+// they are cached by its rounded value.
+
+type Planner = (r: number, g: number, b: number) => Color[];
+
+const PATTERN_SIZE = 64; // One plan entry per 8x8 Bayer cell
+const PLAN_CACHE_LIMIT = 1 << 16;
+
+const sortByLuminance = (plan: Color[]) =>
+  plan.sort((a, b) => luminance(a.r, a.g, a.b) - luminance(b.r, b.g, b.b));
+
+// Knoll: repeatedly quantize the input plus the error accumulated so far
+const KNOLL_ERROR_MULTIPLIER = 0.5;
+
+const createKnollPlanner = (getClosestColor: ColorMatcher): Planner => (r, g, b) => {
+  const plan: Color[] = [];
+  let er = 0, eg = 0, eb = 0;
+  for (let n = 0; n < PATTERN_SIZE; n++) {
+    const c = getClosestColor(
+      r + er * KNOLL_ERROR_MULTIPLIER,
+      g + eg * KNOLL_ERROR_MULTIPLIER,
+      b + eb * KNOLL_ERROR_MULTIPLIER
+    );
+    plan.push(c);
+    er += r - c.r;
+    eg += g - c.g;
+    eb += b - c.b;
+  }
+  return sortByLuminance(plan);
+};
+
+// Yliluoma's algorithm 2: grow the plan greedily, each step adding the
+// palette color (in a power-of-two count) whose inclusion brings the plan's
+// mean closest to the input
+const createYliluomaPlanner = (palette: Color[]): Planner => (r, g, b) => {
+  const plan: Color[] = [];
+  let sumR = 0, sumG = 0, sumB = 0;
+
+  while (plan.length < PATTERN_SIZE) {
+    let chosen = palette[0];
+    let chosenAmount = 1;
+    let leastPenalty = Infinity;
+    const maxTestCount = Math.max(1, plan.length);
+
+    for (const color of palette) {
+      let tr = sumR, tg = sumG, tb = sumB;
+      for (let p = 1; p <= maxTestCount && plan.length + p <= PATTERN_SIZE; p *= 2) {
+        // Adding p copies of the color on top of the ones already tested
+        const add = p === 1 ? 1 : p / 2;
+        tr += color.r * add;
+        tg += color.g * add;
+        tb += color.b * add;
+        const t = plan.length + p;
+        const dr = r - tr / t, dg = g - tg / t, db = b - tb / t;
+        const penalty = dr * dr + dg * dg + db * db;
+        if (penalty < leastPenalty) {
+          leastPenalty = penalty;
+          chosen = color;
+          chosenAmount = p;
+        }
+      }
+    }
+
+    for (let p = 0; p < chosenAmount; p++) {
+      plan.push(chosen);
+      sumR += chosen.r;
+      sumG += chosen.g;
+      sumB += chosen.b;
+    }
+  }
+  return sortByLuminance(plan);
+};
+
+const cachePlans = (planner: Planner): Planner => {
+  const cache = new Map<number, Color[]>();
+  return (r, g, b) => {
+    const cr = Math.round(clamp(r)), cg = Math.round(clamp(g)), cb = Math.round(clamp(b));
+    const key = (cr << 16) | (cg << 8) | cb;
+    let plan = cache.get(key);
+    if (!plan) {
+      if (cache.size >= PLAN_CACHE_LIMIT) cache.clear();
+      plan = planner(cr, cg, cb);
+      cache.set(key, plan);
+    }
+    return plan;
+  };
+};
+
+const runPattern = ({ buffer, width, height, top, report }: DitherContext, planner: Planner) => {
+  const getPlan = cachePlans(planner);
+  for (let y = 0; y < height; y++) {
+    report(y / height);
+    for (let x = 0; x < width; x++) {
+      const i = getPixelIndex(x, y, width);
+      const plan = getPlan(buffer[i], buffer[i + 1], buffer[i + 2]);
+      setPixel(buffer, i, plan[bayer8[(top + y) % 8][x % 8]]);
+    }
+  }
+};
+
+export const yliluoma = defineAlgorithm({
+  id: "Yliluoma",
+  name: "Yliluoma",
+  category: "Ordered",
+  params: [],
+  stripCarry: () => 0,
+  run: (ctx) => runPattern(ctx, createYliluomaPlanner(ctx.palette)),
+});
+
+export const knollPattern = defineAlgorithm({
+  id: "Knoll Pattern",
+  name: "Knoll Pattern",
+  category: "Ordered",
+  params: [],
+  stripCarry: () => 0,
+  run: (ctx) => runPattern(ctx, createKnollPlanner(ctx.getClosestColor)),
+});
@@ -0,0 +1,23 @@
+import { defineAlgorithm } from "./types";
+import { clamp, setPixel } from "./shared";
+
+// White noise added before quantizing
+export const random = defineAlgorithm({
+  id: "Random",
+  name: "Random",
+  category: "Basic",
+  params: [],
+  stripCarry: () => 0,
+  run: ({ buffer, getClosestColor, random, report }) => {
+    for (let i = 0; i < buffer.length; i += 3) {
+      report(i / buffer.length);
+      const noise = (random() - 0.5) * 64;
+      const closest = getClosestColor(
+        clamp(buffer[i] + noise),
+        clamp(buffer[i + 1] + noise),
+        clamp(buffer[i + 2] + noise)
+      );
+      setPixel(buffer, i, closest);
+    }
+  },
+});
@@ -0,0 +1,69 @@
+import { walkHilbertCurve } from "../hilbertCurve";
+import { defineAlgorithm } from "./types";
+import { getPixelIndex, setPixel } from "./shared";
+
+declare module "../../types" {
+  interface AlgorithmSettings {
+    riemersmaQueueLength: number; // Error history length (2-64)
+    riemersmaRatio: number; // Newest/oldest error weight ratio (1-64)
+  }
+}
+
+// Walks a Hilbert curve and spreads error only along it, through a queue of
+// the most recent errors. Weights grow exponentially from 1 (oldest) to
+// `ratio` (newest); the weighted sum is divided by `ratio`.
+export const riemersma = defineAlgorithm({
+  id: "Riemersma",
+  name: "Riemersma",
+  category: "Error Diffusion",
+  params: [
+    { kind: "slider", key: "riemersmaQueueLength", label: "Error Queue Length", default: 16, min: 2, max: 64 },
+    { kind: "slider", key: "riemersmaRatio", label: "Weight Ratio", default: 16, min: 1, max: 64 },
+  ],
+  run: ({ buffer, width, height, settings, getClosestColor, isOpaque, report }) => {
+    const queueLength = Math.max(2, Math.round(settings.riemersmaQueueLength ?? 16));
+    const ratio = Math.max(1, settings.riemersmaRatio ?? 16);
+    const weights = new Float32Array(queueLength);
+    for (let k = 0; k < queueLength; k++) {
+      weights[k] = Math.pow(ratio, k / (queueLength - 1)) / ratio;
+    }
+
+    // Ring buffer of per-channel errors, head = oldest
+    const history = new Float32Array(queueLength * 3);
+    let head = 0;
+    let visited = 0;
+    const total = width * height;
+
+    walkHilbertCurve(width, height, (x, y) => {
+      if ((visited++ & 1023) === 0) report(visited / total);
+      const i = getPixelIndex(x, y, width);
+      const r = buffer[i];
+      const g = buffer[i + 1];
+      const b = buffer[i + 2];
+
+      if (!isOpaque(y * width + x)) {
+        // Leaves the history for the next opaque pixel on the curve
+        setPixel(buffer, i, getClosestColor(r, g, b));
+        return;
+      }
+
+      let errR = 0, errG = 0, errB = 0;
+      for (let k = 0; k < queueLength; k++) {
+        const h = ((head + k) % queueLength) * 3;
+        errR += history[h] * weights[k];
+        errG += history[h + 1] * weights[k];
+        errB += history[h + 2] * weights[k];
+      }
+
+      const closest = getClosestColor(r + errR, g + errG, b + errB);
+      setPixel(buffer, i, closest);
+
+      // Drop the oldest entry and append this pixel's error as the newest
+      const h = head * 3;
+      history[h] = r - closest.r;
+      history[h + 1] = g - closest.g;
+      history[h + 2] = b - closest.b;
+      head = (head + 1) % queueLength;
+    });
+  },
+});
@@ -0,0 +1,42 @@
+import { Color } from "../../types";
+
+// --- Helpers ---
+
+// Index into the 3-channel float working buffer
+export const getPixelIndex = (x: number, y: number, width: number) => (y * width + x) * 3;
+
+export const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+export const clamp = (v: number) => Math.max(0, Math.min(255, v));
+
+// Writes a quantized color into the working buffer
+export const setPixel = (buffer: Float32Array, i: number, c: Color) => {
+  buffer[i] = c.r;
+  buffer[i + 1] = c.g;
+  buffer[i + 2] = c.b;
+};
+
+// --- Bayer Matrices ---
+
+export const bayer2 = [
+  [0, 2],
+  [3, 1],
+];
+
+export const bayer4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+export const bayer8 = [
+  [0, 32, 8, 40, 2, 34, 10, 42],
+  [48, 16, 56, 24, 50, 18, 58, 26],
+  [12, 44, 4, 36, 14, 46, 6, 38],
+  [60, 28, 52, 20, 62, 30, 54, 22],
+  [3, 35, 11, 43, 1, 33, 9, 41],
+  [51, 19, 59, 27, 49, 17, 57, 25],
+  [15, 47, 7, 39, 13, 45, 5, 37],
+  [63, 31, 55, 23, 61, 29, 53, 21],
+];
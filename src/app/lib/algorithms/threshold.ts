@@ -0,0 +1,17 @@
+import { defineAlgorithm } from "./types";
+import { setPixel } from "./shared";
+
+// Plain nearest-color quantization
+export const threshold = defineAlgorithm({
+  id: "Threshold",
+  name: "Threshold",
+  category: "Basic",
+  params: [],
+  stripCarry: () => 0,
+  run: ({ buffer, getClosestColor, report }) => {
+    for (let i = 0; i < buffer.length; i += 3) {
+      report(i / buffer.length);
+      setPixel(buffer, i, getClosestColor(buffer[i], buffer[i + 1], buffer[i + 2]));
+    }
+  },
+});
@@ -0,0 +1,130 @@
+import { Color, CustomKernel, DitherSettings } from "../../types";
+import { ColorMatcher } from "../colorMatching";
+import { Random } from "../random";
+
+// --- Algorithm Registry Types ---
+
+export type AlgorithmCategory = "Basic" | "Error Diffusion" | "Ordered" | "Iterative" | "Stylized";
+
+// Settings that hold an algorithm id. Their type comes from the registry, so
+// they are left out of SettingKey to keep the types from referencing
+// themselves.
+type AlgorithmSettingKey = "algorithm" | "dbsInitialAlgorithm";
+
+// Settings keys holding a value of type T
+type SettingKey<T> = {
+  [K in Exclude<keyof DitherSettings, AlgorithmSettingKey>]: DitherSettings[K] extends T ? K : never;
+}[Exclude<keyof DitherSettings, AlgorithmSettingKey>];
+
+type ParamBase = {
+  label: string;
+  hint?: string; // Small print below the control
+  visible?: (settings: DitherSettings) => boolean;
+};
+
+export type SliderParam = ParamBase & {
+  kind: "slider";
+  key: SettingKey<number>;
+  default: number;
+  min: number;
+  // May depend on other settings; the control shows values above it as the max
+  max: number | ((settings: DitherSettings) => number);
+  step?: number;
+  format?: (value: number, settings: DitherSettings) => string;
+};
+
+export type ToggleParam = ParamBase & {
+  kind: "toggle";
+  key: SettingKey<boolean>;
+  default: boolean;
+};
+
+// One variant per key, so the default and options match that setting's type
+export type SelectParam = {
+  [K in SettingKey<string | number>]: ParamBase & {
+    kind: "select";
+    key: K;
+    default: DitherSettings[K];
+    options: { value: DitherSettings[K]; label: string }[];
+  };
+}[SettingKey<string | number>];
+
+// Picks another registered algorithm, e.g. DBS's starting point. The default
+// is a plain string, since algorithm ids come from the registry itself.
+export type AlgorithmSelectParam = ParamBase & {
+  kind: "algorithm";
+  key: Exclude<AlgorithmSettingKey, "algorithm">;
+  default: string;
+};
+
+// Edited with the custom kernel editor
+export type KernelParam = ParamBase & {
+  kind: "kernel";
+  key: "customKernel";
+  default: CustomKernel;
+};
+
+export type AlgorithmParam =
+  | SliderParam
+  | ToggleParam
+  | SelectParam
+  | AlgorithmSelectParam
+  | KernelParam;
+
+// Everything an algorithm gets from the pipeline. The buffer holds 3 float
+// channels per pixel, already filtered and adjusted, in linear light when
+// `linear` is set; algorithms quantize it in place.
+// Large images arrive as horizontal strips, top to bottom: `height` rows
+// starting at image row `top`. Position-based patterns must use image rows.
+// When the algorithm carries error, the buffer has up to `stripCarry` extra
+// rows below the strip that collect error for the next one.
+export type DitherContext = {
+  buffer: Float32Array;
+  // The strip before error from the previous one was added. The same array
+  // as `buffer` when none was, so copy it before writing to the buffer.
+  input: Float32Array;
+  width: number;
+  height: number; // Rows to quantize
+  top: number;
+  imageHeight: number;
+  settings: DitherSettings;
+  palette: Color[]; // In the same space as the buffer
+  linear: boolean;
+  getClosestColor: ColorMatcher;
+  // Fully transparent pixels neither pass on nor receive error. Rows below
+  // the strip count as opaque; their error is dropped later if they aren't.
+  isOpaque: (p: number) => boolean;
+  // Seeded from settings.seed; use instead of Math.random
+  random: Random;
+  // This algorithm's progress as a 0-1 fraction
+  report: (fraction: number) => void;
+  // Encodes the current buffer into the output image
+  writeOutput: () => ImageData;
+  // Runs another registered algorithm on the buffer, e.g. as a starting point
+  dither: (algorithm: string, report: (fraction: number) => void) => void;
+  // Intermediate results of iterative algorithms
+  onIteration?: (image: ImageData, pass: number) => void;
+  // Iterative algorithms ask between passes whether to finish with what they
+  // have. Waiting for it lets the worker take a stop request.
+  shouldStop: () => Promise<boolean>;
+};
+
+export type DitherAlgorithm<Id extends string = string> = {
+  id: Id; // Stored in settings, so it must stay stable
+  name: string;
+  category: AlgorithmCategory;
+  params: AlgorithmParam[];
+  // Shapes keyed off sRGB luminance: always run on encoded values
+  srgbOnly?: boolean;
+  // Rows below the current one that can receive error (0 for point
+  // operations). Without it the algorithm gets the whole image in one strip.
+  stripCarry?: (settings: DitherSettings) => number;
+  // Strips start on image rows that are multiples of this (1 by default)
+  stripAlign?: (settings: DitherSettings) => number;
+  // Algorithms used as another's starting point (`dither`) must finish
+  // synchronously
+  run: (ctx: DitherContext) => void | Promise<void>;
+};
+
+// Keeps the id's literal type, so the registry can derive AlgorithmName
+export const defineAlgorithm = <Id extends string>(algorithm: DitherAlgorithm<Id>) => algorithm;
@@ -0,0 +1,18 @@
+import { getZhouFangCoefficients, getZhouFangModulation } from "../variableCoefficients";
+import { DIFFUSION_PARAMS, runErrorDiffusion } from "./errorDiffusion";
+import { defineAlgorithm } from "./types";
+
+// Ostromoukhov-style variable coefficients plus level-dependent threshold
+// noise, which breaks up the regular mid-tone patterns
+export const zhouFang = defineAlgorithm({
+  id: "Zhou-Fang",
+  name: "Zhou-Fang",
+  category: "Error Diffusion",
+  params: DIFFUSION_PARAMS,
+  stripCarry: () => 1, // Right, down-left and down
+  run: (ctx) =>
+    runErrorDiffusion(ctx, {
+      getCoefficients: getZhouFangCoefficients,
+      modulation: getZhouFangModulation,
+    }),
+});
@@ -0,0 +1,142 @@
+import { createRandom } from "./random";
+
+// --- Void-and-Cluster Blue Noise ---
+// Ulichney's void-and-cluster method generates a threshold matrix where every
+// threshold level forms an evenly spread, clump-free point set. The filter is
+// evaluated with wrap-around distances, so the matrix tiles seamlessly.
+
+export const BLUE_NOISE_SIZES = [16, 32, 64, 128] as const;
+
+export type BlueNoiseMatrix = {
+  size: number;
+  // Rank of each cell normalized to [0, 1), row-major
+  values: Float32Array;
+};
+
+const SIGMA = 1.5;
+const INITIAL_DENSITY = 0.1;
+
+const generate = (size: number): BlueNoiseMatrix => {
+  const n = size * size;
+
+  // Gaussian weights are negligible past 3 sigma, so only a window around
+  // each point is updated when it is added or removed
+  const radius = Math.min(Math.ceil(SIGMA * 3), Math.floor((size - 1) / 2));
+  const span = radius * 2 + 1;
+  const weights = new Float32Array(span * span);
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      weights[(dy + radius) * span + dx + radius] = Math.exp(
+        -(dx * dx + dy * dy) / (2 * SIGMA * SIGMA)
+      );
+    }
+  }
+
+  const pattern = new Uint8Array(n);
+  const energy = new Float32Array(n);
+
+  const splat = (p: number, sign: number) => {
+    const px = p % size;
+    const py = (p - px) / size;
+    for (let dy = -radius; dy <= radius; dy++) {
+      const row = ((py + dy + size) % size) * size;
+      for (let dx = -radius; dx <= radius; dx++) {
+        energy[row + ((px + dx + size) % size)] +=
+          sign * weights[(dy + radius) * span + dx + radius];
+      }
+    }
+  };
+
+  const set = (p: number, value: 0 | 1) => {
+    pattern[p] = value;
+    splat(p, value ? 1 : -1);
+  };
+
+  // Tightest cluster: the set pixel with the highest energy
+  const tightestCluster = () => {
+    let best = -1;
+    let bestEnergy = -Infinity;
+    for (let p = 0; p < n; p++) {
+      if (pattern[p] && energy[p] > bestEnergy) {
+        bestEnergy = energy[p];
+        best = p;
+      }
+    }
+    return best;
+  };
+
+  // Largest void: the empty pixel with the lowest energy
+  const largestVoid = () => {
+    let best = -1;
+    let bestEnergy = Infinity;
+    for (let p = 0; p < n; p++) {
+      if (!pattern[p] && energy[p] < bestEnergy) {
+        bestEnergy = energy[p];
+        best = p;
+      }
+    }
+    return best;
+  };
+
+  // 1. Random initial pattern
+  // Fixed seed, so the generated texture is identical every time
+  const random = createRandom(size);
+  const initialCount = Math.max(1, Math.floor(n * INITIAL_DENSITY));
+  let placed = 0;
+  while (placed < initialCount) {
+    const p = Math.floor(random() * n);
+    if (!pattern[p]) {
+      set(p, 1);
+      placed++;
+    }
+  }
+
+  // 2. Relax into the prototype pattern by moving the tightest cluster into
+  // the largest void until that no longer changes anything
+  for (let guard = 0; guard < n; guard++) {
+    const cluster = tightestCluster();
+    set(cluster, 0);
+    const hole = largestVoid();
+    set(hole, 1);
+    if (hole === cluster) break;
+  }
+
+  const ranks = new Uint32Array(n);
+  const prototype = pattern.slice();
+  const prototypeEnergy = energy.slice();
+
+  // 3. Phase 1: rank prototype points by removing tightest clusters first
+  for (let rank = initialCount - 1; rank >= 0; rank--) {
+    const cluster = tightestCluster();
+    set(cluster, 0);
+    ranks[cluster] = rank;
+  }
+
+  // 4. Phases 2 & 3: from the prototype, fill the largest voids until full.
+  // Filter energies of the set and unset pixels always sum to the same
+  // constant, so the largest void of the ones is also the tightest cluster
+  // of the zeros and a single loop covers both phases.
+  pattern.set(prototype);
+  energy.set(prototypeEnergy);
+  for (let rank = initialCount; rank < n; rank++) {
+    const hole = largestVoid();
+    set(hole, 1);
+    ranks[hole] = rank;
+  }
+
+  const values = new Float32Array(n);
+  for (let p = 0; p < n; p++) values[p] = ranks[p] / n;
+  return { size, values };
+};
+
+const cache = new Map<number, BlueNoiseMatrix>();
+
+// Generated lazily and kept for the lifetime of the worker
+export const getBlueNoiseMatrix = (size: number): BlueNoiseMatrix => {
+  let matrix = cache.get(size);
+  if (!matrix) {
+    matrix = generate(size);
+    cache.set(size, matrix);
+  }
+  return matrix;
+};
@@ -0,0 +1,89 @@
+import { DitherSettings } from "../types";
+import { BASE_DPI, createHalftoneScreen } from "./halftone";
+
+// --- CMYK Separation ---
+// Splits the adjusted image into cyan, magenta, yellow and black plates and
+// screens each one with its own clustered-dot screen, as a print shop would.
+// Plates hold one byte per pixel: 1 where the plate prints ink, 0 otherwise.
+
+export const CMYK_PLATE_NAMES = ["Cyan", "Magenta", "Yellow", "Black"] as const;
+
+export type CmykPlates = {
+  width: number;
+  height: number;
+  plates: Uint8Array[]; // In CMYK_PLATE_NAMES order
+};
+
+// Conventional angles that keep moiré between plates to a minimum
+export const DEFAULT_CMYK_ANGLES: [number, number, number, number] = [15, 75, 0, 45];
+
+// Converts an sRGB pixel (0-255) to ink coverage (0-1). Black generation
+// turns that share of the gray component (the ink all three colors have in
+// common) into K; under-color removal takes that share of K back out of C, M
+// and Y, so the composite stays neutral with less total ink.
+const toCmyk = (
+  r: number,
+  g: number,
+  b: number,
+  blackGeneration: number,
+  underColorRemoval: number
+): [number, number, number, number] => {
+  const c = 1 - Math.max(0, Math.min(255, r)) / 255;
+  const m = 1 - Math.max(0, Math.min(255, g)) / 255;
+  const y = 1 - Math.max(0, Math.min(255, b)) / 255;
+  const k = Math.min(c, m, y) * blackGeneration;
+  const removed = k * underColorRemoval;
+  if (removed >= 1) return [0, 0, 0, 1];
+  // Rescale what is left so CMY under K still reproduce the original color
+  return [(c - removed) / (1 - removed), (m - removed) / (1 - removed), (y - removed) / (1 - removed), k];
+};
+
+export const separateCmyk = (
+  buffer: Float32Array,
+  width: number,
+  height: number,
+  settings: DitherSettings,
+  onProgress?: (fraction: number) => void,
+  top = 0 // Image row of the buffer's first row, which the screens line up to
+): CmykPlates => {
+  const dpi = BASE_DPI * settings.resolutionScale;
+  const angles = settings.cmykAngles ?? DEFAULT_CMYK_ANGLES;
+  const screens = angles.map((angle) =>
+    createHalftoneScreen(settings.halftoneLpi ?? 40, angle, settings.halftoneDotShape ?? "Round", dpi)
+  );
+  const blackGeneration = (settings.cmykBlackGeneration ?? 100) / 100;
+  const underColorRemoval = (settings.cmykUnderColorRemoval ?? 100) / 100;
+  const plates = CMYK_PLATE_NAMES.map(() => new Uint8Array(width * height));
+
+  for (let y = 0; y < height; y++) {
+    onProgress?.(y / height);
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const inks = toCmyk(
+        buffer[p * 3],
+        buffer[p * 3 + 1],
+        buffer[p * 3 + 2],
+        blackGeneration,
+        underColorRemoval
+      );
+      for (let k = 0; k < 4; k++) {
+        // Inked once the coverage exceeds the screen's threshold here
+        plates[k][p] = inks[k] > screens[k](x, top + y) ? 1 : 0;
+      }
+    }
+  }
+
+  return { width, height, plates };
+};
+
+// Overprints the plates on white paper with idealized inks, writing sRGB
+// values into the working buffer
+export const compositeCmyk = ({ width, height, plates }: CmykPlates, buffer: Float32Array) => {
+  const [c, m, y, k] = plates;
+  for (let p = 0; p < width * height; p++) {
+    const paper = k[p] ? 0 : 255;
+    buffer[p * 3] = c[p] ? 0 : paper;
+    buffer[p * 3 + 1] = m[p] ? 0 : paper;
+    buffer[p * 3 + 2] = y[p] ? 0 : paper;
+  }
+};
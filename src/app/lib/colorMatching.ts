@@ -0,0 +1,254 @@
+import { Color, ColorMetric } from "../types";
+import { createKdTree, createRgbLookupCube } from "./paletteLookup";
+
+export const COLOR_METRICS: { id: ColorMetric; label: string }[] = [
+  { id: "RGB", label: "RGB (Euclidean)" },
+  { id: "Redmean", label: "Weighted RGB (Redmean)" },
+  { id: "CIE76", label: "CIELAB ΔE76" },
+  { id: "CIEDE2000", label: "CIEDE2000" },
+  { id: "OKLab", label: "OKLab" },
+];
+
+// Returns the palette entry closest to an (r, g, b) triple. Inputs may fall
+// outside 0-255 while error diffusion carries accumulated error.
+export type ColorMatcher = (r: number, g: number, b: number) => Color;
+
+// --- Conversions ---
+
+type Vec3 = [number, number, number];
+
+// sRGB (0-255) to linear light (0-1), mirrored for negative inputs
+export const srgbToLinear = (v: number) => {
+  const c = Math.abs(v) / 255;
+  const lin = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  return v < 0 ? -lin : lin;
+};
+
+// Linear light (0-1) back to sRGB (0-1), mirrored for negative inputs
+export const srgbFromLinear = (v: number) => {
+  const c = Math.abs(v);
+  const enc = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return v < 0 ? -enc : enc;
+};
+
+const labF = (t: number) =>
+  t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+
+// D65 reference white
+const XN = 0.95047;
+const YN = 1.0;
+const ZN = 1.08883;
+
+const rgbToLab = (r: number, g: number, b: number): Vec3 => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const x = 0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb;
+  const y = 0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb;
+  const z = 0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb;
+
+  const fx = labF(x / XN);
+  const fy = labF(y / YN);
+  const fz = labF(z / ZN);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const rgbToOklab = (r: number, g: number, b: number): Vec3 => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+};
+
+const identity = (r: number, g: number, b: number): Vec3 => [r, g, b];
+
+// --- Distances ---
+// All return a value that is only meaningful for comparison (may be squared)
+
+const squaredDistance = (a: Vec3, b: Vec3) => {
+  const d0 = a[0] - b[0];
+  const d1 = a[1] - b[1];
+  const d2 = a[2] - b[2];
+  return d0 * d0 + d1 * d1 + d2 * d2;
+};
+
+// "Redmean" approximation: weights R and B by the mean red level
+const redmeanDistance = (a: Vec3, b: Vec3) => {
+  const rMean = (a[0] + b[0]) / 2;
+  const dr = a[0] - b[0];
+  const dg = a[1] - b[1];
+  const db = a[2] - b[2];
+  return (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db;
+};
+
+const DEG = Math.PI / 180;
+const POW25_7 = Math.pow(25, 7);
+
+// Sharma, Wu & Dalal (2005) formulation, kL = kC = kH = 1
+const ciede2000Distance = (lab1: Vec3, lab2: Vec3) => {
+  const [L1, a1, b1] = lab1;
+  const [L2, a2, b2] = lab2;
+
+  const C1 = Math.hypot(a1, b1);
+  const C2 = Math.hypot(a2, b2);
+  const cMean7 = Math.pow((C1 + C2) / 2, 7);
+  const G = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + POW25_7)));
+
+  const a1p = (1 + G) * a1;
+  const a2p = (1 + G) * a2;
+  const C1p = Math.hypot(a1p, b1);
+  const C2p = Math.hypot(a2p, b2);
+
+  const hueAngle = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / DEG;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hueAngle(b1, a1p);
+  const h2p = hueAngle(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * DEG);
+
+  const LpMean = (L1 + L2) / 2;
+  const CpMean = (C1p + C2p) / 2;
+
+  let hpMean = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hpMean /= 2;
+    else hpMean = h1p + h2p < 360 ? (hpMean + 360) / 2 : (hpMean - 360) / 2;
+  }
+
+  const T =
+    1 -
+    0.17 * Math.cos((hpMean - 30) * DEG) +
+    0.24 * Math.cos(2 * hpMean * DEG) +
+    0.32 * Math.cos((3 * hpMean + 6) * DEG) -
+    0.2 * Math.cos((4 * hpMean - 63) * DEG);
+
+  const dTheta = 30 * Math.exp(-Math.pow((hpMean - 275) / 25, 2));
+  const CpMean7 = Math.pow(CpMean, 7);
+  const RC = 2 * Math.sqrt(CpMean7 / (CpMean7 + POW25_7));
+  const lTerm = (LpMean - 50) * (LpMean - 50);
+  const SL = 1 + (0.015 * lTerm) / Math.sqrt(20 + lTerm);
+  const SC = 1 + 0.045 * CpMean;
+  const SH = 1 + 0.015 * CpMean * T;
+  const RT = -Math.sin(2 * dTheta * DEG) * RC;
+
+  const tL = dLp / SL;
+  const tC = dCp / SC;
+  const tH = dHp / SH;
+  return tL * tL + tC * tC + tH * tH + RT * tC * tH;
+};
+
+const METRICS: Record<
+  ColorMetric,
+  {
+    convert: (r: number, g: number, b: number) => Vec3;
+    distance: (a: Vec3, b: Vec3) => number;
+    euclidean: boolean; // Plain squared distance in the converted space
+  }
+> = {
+  RGB: { convert: identity, distance: squaredDistance, euclidean: true },
+  Redmean: { convert: identity, distance: redmeanDistance, euclidean: false },
+  CIE76: { convert: rgbToLab, distance: squaredDistance, euclidean: true },
+  CIEDE2000: { convert: rgbToLab, distance: ciede2000Distance, euclidean: false },
+  OKLab: { convert: rgbToOklab, distance: squaredDistance, euclidean: true },
+};
+
+// Below this size a linear scan beats building and walking a lookup structure
+const ACCELERATION_MIN_COLORS = 8;
+
+// --- Matcher ---
+
+// Palette colors are converted into the metric's space once, up front,
+// so each lookup only converts the pixel itself
+export const createColorMatcher = (
+  palette: Color[],
+  metric: ColorMetric = "RGB"
+): ColorMatcher => {
+  const fallback: Color = palette[0] ?? { r: 0, g: 0, b: 0 };
+  const { convert, distance, euclidean } = METRICS[metric];
+  const converted = palette.map((c) => convert(c.r, c.g, c.b));
+
+  if (euclidean && palette.length >= ACCELERATION_MIN_COLORS) {
+    if (metric === "RGB") {
+      const lookup = createRgbLookupCube(converted);
+      return (r, g, b) => palette[lookup(r, g, b)];
+    }
+    const nearest = createKdTree(converted);
+    return (r, g, b) => palette[nearest(convert(r, g, b))];
+  }
+
+  if (metric === "RGB") {
+    // Hot path: avoid allocating a vector per pixel
+    return (r, g, b) => {
+      let minDist = Infinity;
+      let closest = fallback;
+      for (const color of palette) {
+        const dr = r - color.r;
+        const dg = g - color.g;
+        const db = b - color.b;
+        const dist = dr * dr + dg * dg + db * db;
+        if (dist < minDist) {
+          minDist = dist;
+          closest = color;
+        }
+      }
+      return closest;
+    };
+  }
+
+  return (r, g, b) => {
+    const v = convert(r, g, b);
+    let minDist = Infinity;
+    let closest = fallback;
+    for (let k = 0; k < palette.length; k++) {
+      const dist = distance(v, converted[k]);
+      if (dist < minDist) {
+        minDist = dist;
+        closest = palette[k];
+      }
+    }
+    return closest;
+  };
+};
+
+// Matchers (and their lookup structures) are kept per palette and metric, so
+// re-renders that only change adjustments or the algorithm reuse them
+const MATCHER_CACHE_SIZE = 8;
+const matcherCache = new Map<string, ColorMatcher>();
+
+export const getColorMatcher = (palette: Color[], metric: ColorMetric = "RGB"): ColorMatcher => {
+  const key = metric + ":" + palette.map((c) => `${c.r},${c.g},${c.b}`).join(";");
+  let matcher = matcherCache.get(key);
+  if (matcher) {
+    // Refresh recency
+    matcherCache.delete(key);
+  } else {
+    matcher = createColorMatcher(palette, metric);
+    if (matcherCache.size >= MATCHER_CACHE_SIZE) {
+      matcherCache.delete(matcherCache.keys().next().value!);
+    }
+  }
+  matcherCache.set(key, matcher);
+  return matcher;
+};
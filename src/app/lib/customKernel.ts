@@ -0,0 +1,90 @@
+import { CustomKernel, SavedKernel } from "../types";
+
+// Floyd-Steinberg as a starting point for editing
+export const DEFAULT_CUSTOM_KERNEL: CustomKernel = {
+  mode: "diffusion",
+  matrix: [
+    [0, 0, 7],
+    [3, 5, 1],
+  ],
+  divisor: 16,
+  originX: 1,
+};
+
+const MAX_MATRIX_SIZE = 64;
+
+// --- Text Format ---
+// One row per line, values separated by spaces, tabs or commas.
+// Brackets are ignored so JSON-style arrays can be pasted as well.
+
+export const parseMatrix = (text: string): number[][] | null => {
+  const rows = text
+    .replace(/[[\]]/g, " ")
+    .split(/\n|;/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => line.split(/[\s,]+/).filter(Boolean).map(Number));
+
+  if (rows.length === 0) return null;
+  if (rows.some((row) => row.some((v) => !Number.isFinite(v)))) return null;
+  return rows;
+};
+
+export const formatMatrix = (matrix: number[][]) =>
+  matrix.map((row) => row.join(" ")).join("\n");
+
+// --- Validation ---
+// Returns a user-facing message, or null if the kernel can be used
+
+export const validateCustomKernel = (kernel: CustomKernel): string | null => {
+  const { matrix } = kernel;
+  if (matrix.length === 0 || matrix[0].length === 0) return "Matrix is empty";
+  if (matrix.length > MAX_MATRIX_SIZE || matrix.some((row) => row.length > MAX_MATRIX_SIZE)) {
+    return `Matrix can be at most ${MAX_MATRIX_SIZE} x ${MAX_MATRIX_SIZE}`;
+  }
+
+  if (kernel.mode === "threshold") {
+    if (matrix.some((row) => row.length !== matrix[0].length)) {
+      return "All rows of a threshold matrix must have the same length";
+    }
+    const values = matrix.flat();
+    if (Math.min(...values) === Math.max(...values)) {
+      return "Threshold matrix needs at least two different values";
+    }
+    return null;
+  }
+
+  if (!(kernel.divisor > 0)) return "Divisor must be greater than 0";
+  if (!Number.isInteger(kernel.originX) || kernel.originX < 0 || kernel.originX >= matrix[0].length) {
+    return "Origin must be a column of the first row";
+  }
+  if (matrix.flat().some((v) => v < 0)) return "Weights can't be negative";
+  if (matrix[0].slice(0, kernel.originX + 1).some((v) => v !== 0)) {
+    // Those pixels were already quantized when the current one is visited
+    return "Weights at or left of the origin in the first row must be 0";
+  }
+  if (matrix.flat().every((v) => v === 0)) return "Kernel needs at least one non-zero weight";
+  return null;
+};
+
+// --- Saved Kernels ---
+
+const STORAGE_KEY = "dither-r.savedKernels";
+
+export const loadSavedKernels = (): SavedKernel[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeSavedKernels = (kernels: SavedKernel[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kernels));
+  } catch {
+    // Storage full or unavailable (private mode): keep them for this session only
+  }
+};
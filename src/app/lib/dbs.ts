@@ -0,0 +1,168 @@
+import { Color } from "../types";
+
+// --- Direct Binary Search ---
+// Iteratively improves an existing halftone (Lieberman & Allebach). The error
+// between halftone and source is filtered by a Gaussian model of the eye;
+// each pass visits every pixel and applies the single best change (recolor
+// it to another palette entry, or swap colors with a neighbour) that lowers
+// the perceived error. Works with any palette since colors are plain
+// 3-channel vectors.
+
+// Eye model: Gaussian low-pass, sigma in pixels
+const HVS_SIGMA = 1.5;
+
+const SWAP_NEIGHBOURS = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1],
+];
+
+// Autocorrelation of the eye filter: a Gaussian of sigma * sqrt(2)
+const createAutocorrelation = () => {
+  const sigma = HVS_SIGMA * Math.SQRT2;
+  const radius = Math.ceil(sigma * 3);
+  const size = radius * 2 + 1;
+  const weights = new Float32Array(size * size);
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      weights[(dy + radius) * size + dx + radius] = Math.exp(
+        -(dx * dx + dy * dy) / (2 * sigma * sigma)
+      );
+    }
+  }
+  return { radius, size, weights };
+};
+
+export type DbsOptions = {
+  width: number;
+  height: number;
+  target: Float32Array; // Source, 3 channels per pixel
+  colors: Color[]; // Palette in the same space as target
+  indices: Uint16Array; // Initial halftone as palette indices, updated in place
+  fixed?: Uint8Array; // Non-zero for pixels that must not change
+  maxPasses: number;
+  // Called after every pass; returning (or resolving to) false stops early
+  onPass?: (pass: number, changed: number) => boolean | void | Promise<boolean | void>;
+  onProgress?: (fraction: number) => void;
+};
+
+// Resolves to the number of passes run. Waits for `onPass` between passes,
+// which is where a caller can take new messages and ask it to stop.
+export const runDirectBinarySearch = async ({
+  width,
+  height,
+  target,
+  colors,
+  indices,
+  fixed,
+  maxPasses,
+  onPass,
+  onProgress,
+}: DbsOptions): Promise<number> => {
+  const { radius, size, weights } = createAutocorrelation();
+  const center = weights[radius * size + radius];
+  const palette = colors.map((c) => [c.r, c.g, c.b]);
+
+  // Cross-correlation of the error with the filter autocorrelation. The
+  // change in total perceived error for any edit follows from it directly.
+  const cpe = new Float32Array(width * height * 3);
+  const spread = (x: number, y: number, d0: number, d1: number, d2: number) => {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height - 1, y + radius);
+    const x0 = Math.max(0, x - radius);
+    const x1 = Math.min(width - 1, x + radius);
+    for (let ny = y0; ny <= y1; ny++) {
+      const row = (ny - y + radius) * size + radius - x;
+      for (let nx = x0; nx <= x1; nx++) {
+        const w = weights[row + nx];
+        const i = (ny * width + nx) * 3;
+        cpe[i] += d0 * w;
+        cpe[i + 1] += d1 * w;
+        cpe[i + 2] += d2 * w;
+      }
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const c = palette[indices[p]];
+      spread(x, y, c[0] - target[p * 3], c[1] - target[p * 3 + 1], c[2] - target[p * 3 + 2]);
+    }
+  }
+
+  let pass = 0;
+  while (pass < maxPasses) {
+    let changed = 0;
+
+    for (let y = 0; y < height; y++) {
+      onProgress?.((pass + y / height) / maxPasses);
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        if (fixed?.[p]) continue;
+        const i = p * 3;
+        const current = palette[indices[p]];
+        let bestDelta = 0;
+        let bestColor = -1;
+        let bestSwap = -1;
+
+        // Recolor: dE = 2 d.cpe + |d|^2 c(0)
+        for (let k = 0; k < palette.length; k++) {
+          if (k === indices[p]) continue;
+          const d0 = palette[k][0] - current[0];
+          const d1 = palette[k][1] - current[1];
+          const d2 = palette[k][2] - current[2];
+          const delta =
+            2 * (d0 * cpe[i] + d1 * cpe[i + 1] + d2 * cpe[i + 2]) +
+            (d0 * d0 + d1 * d1 + d2 * d2) * center;
+          if (delta < bestDelta) {
+            bestDelta = delta;
+            bestColor = k;
+            bestSwap = -1;
+          }
+        }
+
+        // Swap with a neighbour: the pixel gains d, the neighbour loses it
+        for (const [ox, oy] of SWAP_NEIGHBOURS) {
+          const nx = x + ox;
+          const ny = y + oy;
+          if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+          const q = ny * width + nx;
+          if (indices[q] === indices[p] || fixed?.[q]) continue;
+          const j = q * 3;
+          const other = palette[indices[q]];
+          const d0 = other[0] - current[0];
+          const d1 = other[1] - current[1];
+          const d2 = other[2] - current[2];
+          const w = weights[(oy + radius) * size + ox + radius];
+          const delta =
+            2 * (d0 * (cpe[i] - cpe[j]) + d1 * (cpe[i + 1] - cpe[j + 1]) + d2 * (cpe[i + 2] - cpe[j + 2])) +
+            2 * (d0 * d0 + d1 * d1 + d2 * d2) * (center - w);
+          if (delta < bestDelta) {
+            bestDelta = delta;
+            bestColor = indices[q];
+            bestSwap = q;
+          }
+        }
+
+        if (bestColor < 0) continue;
+        const next = palette[bestColor];
+        const d0 = next[0] - current[0];
+        const d1 = next[1] - current[1];
+        const d2 = next[2] - current[2];
+        if (bestSwap >= 0) {
+          indices[bestSwap] = indices[p];
+          spread(bestSwap % width, Math.floor(bestSwap / width), -d0, -d1, -d2);
+        }
+        indices[p] = bestColor;
+        spread(x, y, d0, d1, d2);
+        changed++;
+      }
+    }
+
+    pass++;
+    if ((await onPass?.(pass, changed)) === false || changed === 0) break;
+  }
+
+  return pass;
+};
@@ -0,0 +1,127 @@
+import { DitherSettings } from "../types";
+import { createStripProcessor } from "./ditherAlgorithms";
+import { DitherMetrics, createMetricsAccumulator } from "./metrics";
+
+// --- Message Protocol ---
+
+export type DitherJob = {
+  type: "run";
+  id: number;
+  // A bitmap transferred to the worker, or an image file decoded here. Either
+  // way it is scaled to the output size one strip at a time.
+  source: ImageBitmap | Blob;
+  width: number; // Output size
+  height: number;
+  settings: DitherSettings;
+  withAdjusted: boolean; // Also send the adjusted source rows, for comparison views
+  adjustOnly: boolean; // Send only the adjusted source rows, as the strips
+};
+
+// Asks a running job to finish early with what it has. Iterative algorithms
+// check for it between passes; the job then completes as usual.
+export type DitherStop = { type: "stop"; id: number };
+
+export type DitherWorkerRequest = DitherJob | DitherStop;
+
+export type DitherWorkerMessage =
+  | { type: "progress"; id: number; progress: number }
+  | { type: "iteration"; id: number; width: number; height: number; buffer: ArrayBuffer; pass: number }
+  // Finished rows, streamed as each strip completes, and the adjusted source
+  // rows they were dithered from if the job asked for them
+  | {
+      type: "strip";
+      id: number;
+      top: number;
+      width: number;
+      height: number;
+      buffer: ArrayBuffer;
+      adjusted?: ArrayBuffer;
+    }
+  | {
+      type: "result";
+      id: number;
+      plates?: ArrayBuffer[]; // CMYK mode only, one byte per pixel each
+      metrics: DitherMetrics;
+    }
+  | { type: "error"; id: number; message: string };
+
+const post = (message: DitherWorkerMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// --- Worker Entry ---
+
+// Id of the job asked to stop
+let stopId = -1;
+
+// Gives pending messages a chance to run before reading the stop request
+const shouldStop = (id: number) => () =>
+  new Promise<boolean>((resolve) => setTimeout(() => resolve(stopId === id), 0));
+
+self.onmessage = async (event: MessageEvent<DitherWorkerRequest>) => {
+  if (event.data.type === "stop") {
+    stopId = event.data.id;
+    return;
+  }
+  const job = event.data;
+  const { id, width, height, settings, withAdjusted, adjustOnly } = job;
+  let source: ImageBitmap | null = null;
+
+  try {
+    // Files are decoded here, off the main thread
+    source = job.source instanceof Blob ? await createImageBitmap(job.source) : job.source;
+    let plates: ArrayBuffer[] | undefined;
+    let reference: ImageData | undefined;
+    const metrics = createMetricsAccumulator(settings.palette);
+    const processor = createStripProcessor(
+      width,
+      height,
+      settings,
+      (progress) => post({ type: "progress", id, progress }),
+      {
+        onPlates: (cmyk) => {
+          plates = cmyk.plates.map((plate) => plate.buffer as ArrayBuffer);
+        },
+        onIteration: (image, pass) => {
+          // The image keeps being refined, so send a copy
+          const snapshot = image.data.slice().buffer as ArrayBuffer;
+          post({ type: "iteration", id, width, height, buffer: snapshot, pass }, [snapshot]);
+        },
+        onReference: (strip, output) => {
+          metrics.add(strip, output);
+          reference = strip;
+        },
+        shouldStop: shouldStop(id),
+      },
+      adjustOnly
+    );
+
+    // Only one strip (plus filter context) exists at output size at a time
+    const { stripRows, halo } = processor;
+    const canvas = new OffscreenCanvas(width, Math.min(height, stripRows + 2 * halo));
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("2D canvas unavailable in worker");
+
+    for (let top = 0; top < height; top += stripRows) {
+      const rows = Math.min(stripRows, height - top);
+      const haloTop = Math.min(halo, top);
+      const inputRows = haloTop + rows + Math.min(halo, height - top - rows);
+      ctx.clearRect(0, 0, width, canvas.height);
+      // The whole image is placed so only this strip's rows land on the
+      // canvas, which keeps resampling seamless across strips
+      ctx.drawImage(source, 0, haloTop - top, width, height);
+      const input = ctx.getImageData(0, 0, width, inputRows);
+
+      const output = await processor.process(input, top, rows, haloTop);
+      const buffer = output.data.buffer as ArrayBuffer;
+      const adjusted = withAdjusted ? (reference!.data.buffer as ArrayBuffer) : undefined;
+      post({ type: "strip", id, top, width, height: rows, buffer, adjusted }, adjusted ? [buffer, adjusted] : [buffer]);
+    }
+
+    source.close();
+    post({ type: "result", id, plates, metrics: metrics.result() }, plates ?? []);
+  } catch (err) {
+    source?.close();
+    post({ type: "error", id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -1,217 +1,297 @@
-import { AlgorithmName, Color, DitherSettings } from "../types";
+import { AlphaAlgorithm, Color, ColorMetric, DitherSettings } from "../types";
+import { getBlueNoiseMatrix } from "./blueNoise";
+import { CmykPlates, compositeCmyk, separateCmyk } from "./cmyk";
+import { ColorMatcher, getColorMatcher, srgbFromLinear, srgbToLinear } from "./colorMatching";
+import { DitherContext, getAlgorithm } from "./algorithms";
+import { RANDOM_STREAMS, createStream } from "./random";
+import { KERNELS } from "./algorithms/errorDiffusion";
+import { bayer8, clamp } from "./algorithms/shared";
 
-// --- Helpers ---
+// --- Preprocessing ---
 
-const getPixelIndex = (x: number, y: number, width: number) => (y * width + x) * 4;
+// Separable Gaussian over a 3-channel float buffer, edges clamped.
+// The kernel spans `radius` pixels each side with sigma = radius / 2.
+export const gaussianBlur = (
+  src: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  onProgress?: (fraction: number) => void
+): Float32Array => {
+  const half = Math.ceil(radius);
+  const sigma = radius / 2;
+  const weights = new Float32Array(half * 2 + 1);
+  let sum = 0;
+  for (let k = -half; k <= half; k++) {
+    const w = Math.exp(-(k * k) / (2 * sigma * sigma));
+    weights[k + half] = w;
+    sum += w;
+  }
+  for (let k = 0; k < weights.length; k++) weights[k] /= sum;
 
-const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+  const tmp = new Float32Array(src.length);
+  const dst = new Float32Array(src.length);
 
-// Simple Euclidean distance for closest color
-const getClosestColor = (r: number, g: number, b: number, palette: Color[]): Color => {
-  let minDist = Infinity;
-  let closest = palette[0];
+  // Horizontal pass
+  for (let y = 0; y < height; y++) {
+    onProgress?.(y / height / 2);
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let k = -half; k <= half; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        const s = (row + sx) * 3;
+        const w = weights[k + half];
+        r += src[s] * w;
+        g += src[s + 1] * w;
+        b += src[s + 2] * w;
+      }
+      const d = (row + x) * 3;
+      tmp[d] = r;
+      tmp[d + 1] = g;
+      tmp[d + 2] = b;
+    }
+  }
 
-  for (const color of palette) {
-    const dr = r - color.r;
-    const dg = g - color.g;
-    const db = b - color.b;
-    const dist = dr * dr + dg * dg + db * db;
-    if (dist < minDist) {
-      minDist = dist;
-      closest = color;
+  // Vertical pass
+  for (let y = 0; y < height; y++) {
+    onProgress?.(0.5 + y / height / 2);
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let k = -half; k <= half; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        const s = (sy * width + x) * 3;
+        const w = weights[k + half];
+        r += tmp[s] * w;
+        g += tmp[s + 1] * w;
+        b += tmp[s + 2] * w;
+      }
+      const d = (y * width + x) * 3;
+      dst[d] = r;
+      dst[d + 1] = g;
+      dst[d + 2] = b;
     }
   }
-  return closest;
+
+  return dst;
 };
 
-// --- Kernels ---
-
-type Kernel = {
-  offset: [number, number]; // x, y offset
-  weight: number;
-}[];
-
-const createKernel = (divisor: number, matrix: number[][], originX: number): Kernel => {
-  const kernel: Kernel = [];
-  for (let y = 0; y < matrix.length; y++) {
-    for (let x = 0; x < matrix[y].length; x++) {
-      const weight = matrix[y][x];
-      if (weight !== 0) {
-        // originX is the index of the current pixel in the top row (y=0)
-        // matrix includes the current row (y=0) and subsequent rows
-        // We only care about pixels *after* the current one in raster order
-        // The matrix input usually includes the current pixel row starting from the current pixel or before
-        // Standard definition:
-        // FS:
-        //   X  7
-        // 3 5  1
-        // matrix: [[0, 0, 7], [3, 5, 1]] (if we pad)
-        // simpler: pass specific offsets
+// Unsharp mask: fixed small radius, slider controls amount (100 => 200%)
+const UNSHARP_RADIUS = 2;
+
+// --- Linear Light ---
+
+// Linear-light values are kept on the same 0-255 scale as sRGB ones
+const linearToSrgb = (v: number) =>
+  Math.round(srgbFromLinear(Math.max(0, Math.min(1, v / 255))) * 255);
+
+const toLinear = (c: Color): Color => ({
+  r: srgbToLinear(c.r) * 255,
+  g: srgbToLinear(c.g) * 255,
+  b: srgbToLinear(c.b) * 255,
+});
+
+// Quantizes working-buffer values. In linear mode plain RGB distance is
+// measured against the linearized palette, so thresholds fall at the correct
+// physical midpoint; perceptual metrics do their own linearization, so they
+// see the re-encoded pixel instead. Either way the match is returned in
+// working (linear) space so the propagated error stays linear.
+const createWorkingMatcher = (
+  palette: Color[],
+  metric: ColorMetric = "RGB",
+  linear: boolean
+): ColorMatcher => {
+  if (!linear) return getColorMatcher(palette, metric);
+
+  if (metric === "RGB") return getColorMatcher(palette.map(toLinear), metric);
+
+  const match = getColorMatcher(palette, metric);
+  const linearByKey = new Map(palette.map((c) => [(c.r << 16) | (c.g << 8) | c.b, toLinear(c)]));
+  const encode = (v: number) => srgbFromLinear(v / 255) * 255;
+  return (r, g, b) => {
+    const c = match(encode(r), encode(g), encode(b));
+    return linearByKey.get((c.r << 16) | (c.g << 8) | c.b)!;
+  };
+};
+
+// --- Alpha ---
+
+// Gaussian blur of a single channel, reusing the 3-channel implementation
+const blurAlpha = (alpha: Float32Array, width: number, height: number, radius: number) => {
+  const packed = new Float32Array(alpha.length * 3);
+  for (let p = 0; p < alpha.length; p++) packed[p * 3] = alpha[p];
+  const blurred = gaussianBlur(packed, width, height, radius);
+  return alpha.map((_, p) => blurred[p * 3]);
+};
+
+// Dithers alpha to fully opaque or fully transparent (0/255). `top` is the
+// image row of the first row; `carry` holds the error diffused into the row
+// below the previous strip and receives the one below this strip.
+const ditherAlpha = (
+  alpha: Float32Array,
+  width: number,
+  height: number,
+  algorithm: AlphaAlgorithm,
+  blueNoiseSize: number,
+  top: number,
+  carry: Float32Array
+): Float32Array => {
+  const out = new Float32Array(alpha.length);
+
+  if (algorithm === "Floyd-Steinberg") {
+    // One extra row collects the error for the next strip
+    const work = new Float32Array(alpha.length + width);
+    work.set(alpha);
+    for (let x = 0; x < width; x++) work[x] += carry[x];
+    const kernel = KERNELS["Floyd-Steinberg"];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        out[p] = work[p] >= 128 ? 255 : 0;
+        const err = work[p] - out[p];
+        for (const item of kernel.items) {
+          const nx = x + item.x;
+          const ny = y + item.y;
+          if (nx >= 0 && nx < width) {
+            work[ny * width + nx] += (err * item.w) / kernel.divisor;
+          }
+        }
       }
     }
+    carry.set(work.subarray(alpha.length));
+    return out;
   }
-  return kernel; // Re-implementing manually for clarity below
-};
 
-const KERNELS: Record<string, { divisor: number; items: { x: number; y: number; w: number }[] }> = {
-  "Floyd-Steinberg": {
-    divisor: 16,
-    items: [
-      { x: 1, y: 0, w: 7 },
-      { x: -1, y: 1, w: 3 },
-      { x: 0, y: 1, w: 5 },
-      { x: 1, y: 1, w: 1 },
-    ],
-  },
-  "Atkinson": {
-    divisor: 8,
-    items: [
-      { x: 1, y: 0, w: 1 },
-      { x: 2, y: 0, w: 1 },
-      { x: -1, y: 1, w: 1 },
-      { x: 0, y: 1, w: 1 },
-      { x: 1, y: 1, w: 1 },
-      { x: 0, y: 2, w: 1 },
-    ],
-  },
-  "Jarvis-Judice-Ninke": {
-    divisor: 48,
-    items: [
-      { x: 1, y: 0, w: 7 },
-      { x: 2, y: 0, w: 5 },
-      { x: -2, y: 1, w: 3 },
-      { x: -1, y: 1, w: 5 },
-      { x: 0, y: 1, w: 7 },
-      { x: 1, y: 1, w: 5 },
-      { x: 2, y: 1, w: 3 },
-      { x: -2, y: 2, w: 1 },
-      { x: -1, y: 2, w: 3 },
-      { x: 0, y: 2, w: 5 },
-      { x: 1, y: 2, w: 3 },
-      { x: 2, y: 2, w: 1 },
-    ],
-  },
-  "Stucki": {
-    divisor: 42,
-    items: [
-      { x: 1, y: 0, w: 8 },
-      { x: 2, y: 0, w: 4 },
-      { x: -2, y: 1, w: 2 },
-      { x: -1, y: 1, w: 4 },
-      { x: 0, y: 1, w: 8 },
-      { x: 1, y: 1, w: 4 },
-      { x: 2, y: 1, w: 2 },
-      { x: -2, y: 2, w: 1 },
-      { x: -1, y: 2, w: 2 },
-      { x: 0, y: 2, w: 4 },
-      { x: 1, y: 2, w: 2 },
-      { x: 2, y: 2, w: 1 },
-    ],
-  },
-  "Burkes": {
-    divisor: 32,
-    items: [
-      { x: 1, y: 0, w: 8 },
-      { x: 2, y: 0, w: 4 },
-      { x: -2, y: 1, w: 2 },
-      { x: -1, y: 1, w: 4 },
-      { x: 0, y: 1, w: 8 },
-      { x: 1, y: 1, w: 4 },
-      { x: 2, y: 1, w: 2 },
-    ],
-  },
-  "Sierra": {
-    divisor: 32,
-    items: [
-      { x: 1, y: 0, w: 5 },
-      { x: 2, y: 0, w: 3 },
-      { x: -2, y: 1, w: 2 },
-      { x: -1, y: 1, w: 4 },
-      { x: 0, y: 1, w: 5 },
-      { x: 1, y: 1, w: 4 },
-      { x: 2, y: 1, w: 2 },
-      { x: -1, y: 2, w: 2 },
-      { x: 0, y: 2, w: 3 },
-      { x: 1, y: 2, w: 2 },
-    ],
-  },
-  "Two-Row Sierra": {
-    divisor: 16,
-    items: [
-      { x: 1, y: 0, w: 4 },
-      { x: 2, y: 0, w: 3 },
-      { x: -2, y: 1, w: 1 },
-      { x: -1, y: 1, w: 2 },
-      { x: 0, y: 1, w: 3 },
-      { x: 1, y: 1, w: 2 },
-      { x: 2, y: 1, w: 1 },
-    ],
-  },
-  "Sierra Lite": {
-    divisor: 4,
-    items: [
-      { x: 1, y: 0, w: 2 },
-      { x: -1, y: 1, w: 1 },
-      { x: 0, y: 1, w: 1 },
-    ],
-  },
+  const noise = algorithm === "Blue Noise" ? getBlueNoiseMatrix(blueNoiseSize) : null;
+  for (let y = 0; y < height; y++) {
+    const row = top + y;
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      let threshold = 128;
+      if (algorithm === "Ordered 8x8") threshold = ((bayer8[row % 8][x % 8] + 0.5) / 64) * 255;
+      if (noise) threshold = (noise.values[(row % noise.size) * noise.size + (x % noise.size)] + 0.5 / (noise.size * noise.size)) * 255;
+      out[p] = alpha[p] >= threshold ? 255 : 0;
+    }
+  }
+  return out;
 };
 
-// --- Bayer Matrices ---
-
-const bayer2 = [
-  [0, 2],
-  [3, 1],
-];
-
-const bayer4 = [
-  [0, 8, 2, 10],
-  [12, 4, 14, 6],
-  [3, 11, 1, 9],
-  [15, 7, 13, 5],
-];
-
-const bayer8 = [
-  [0, 32, 8, 40, 2, 34, 10, 42],
-  [48, 16, 56, 24, 50, 18, 58, 26],
-  [12, 44, 4, 36, 14, 46, 6, 38],
-  [60, 28, 52, 20, 62, 30, 54, 22],
-  [3, 35, 11, 43, 1, 33, 9, 41],
-  [51, 19, 59, 27, 49, 17, 57, 25],
-  [15, 47, 7, 39, 13, 45, 5, 37],
-  [63, 31, 55, 23, 61, 29, 53, 21],
-];
+// --- Progress ---
+
+// Receives overall progress as a percentage (0-100)
+export type ProgressCallback = (progress: number) => void;
+
+// Maps a stage's own 0-1 fraction into its slice of the overall percentage.
+// Only forwards whole-percent changes, so per-pixel calls stay cheap and the
+// worker doesn't flood the main thread with messages.
+const createProgressReporter = (
+  onProgress: ProgressCallback | undefined,
+  start: number,
+  end: number
+) => {
+  let last = -1;
+  return (fraction: number) => {
+    if (!onProgress) return;
+    const pct = Math.floor(start + fraction * (end - start));
+    if (pct !== last) {
+      last = pct;
+      onProgress(pct);
+    }
+  };
+};
 
-// --- Preprocessing ---
+// Optional results besides the final image
+export type ProcessHooks = {
+  // CMYK mode: the screened plates, so they can be exported separately from
+  // the composite preview
+  onPlates?: (plates: CmykPlates) => void;
+  // DBS: the result after each pass. The image is reused, copy it to keep it.
+  onIteration?: (image: ImageData, pass: number) => void;
+  // DBS: asked between passes; resolving to true finishes with the last pass
+  shouldStop?: () => Promise<boolean>;
+  // Each strip's adjusted source (filtered and adjusted, not yet quantized)
+  // alongside its dithered rows, for comparison and quality metrics
+  onReference?: (reference: ImageData, output: ImageData) => void;
+};
 
-const clamp = (v: number) => Math.max(0, Math.min(255, v));
+// Working buffers stay around this many pixels per strip
+const STRIP_PIXELS = 1 << 20;
+
+// Algorithms that need the whole image at once hold all of it in working
+// buffers (over 30 bytes per pixel), so they only run up to this size
+export const WHOLE_IMAGE_MAX_PIXELS = 1 << 23;
+
+// Rows of error each strip passes on to the next, or undefined when the
+// algorithm needs the whole image in one strip. Screening is a point
+// operation; anything else says how far its error reaches.
+const getCarryRows = (settings: DitherSettings) =>
+  settings.colorSpace === "CMYK" ? 0 : getAlgorithm(settings.algorithm).stripCarry?.(settings);
+
+export const needsWholeImage = (settings: DitherSettings) => getCarryRows(settings) === undefined;
+
+// Processes an image as horizontal strips, top to bottom, so memory stays
+// bounded however large the image is. State that crosses strip boundaries
+// (diffused error, random streams, CMYK plates) lives here between calls.
+export type StripProcessor = {
+  // Rows per strip; the full height for algorithms that need the whole image
+  stripRows: number;
+  // Rows of source the filters need above and below each strip
+  halo: number;
+  // `input` holds the strip's `rows` rows, starting at image row `top`,
+  // with `haloTop` rows of context above them and any below. Returns the
+  // dithered rows, or the adjusted ones when only adjusting.
+  process: (input: ImageData, top: number, rows: number, haloTop: number) => Promise<ImageData>;
+};
 
-export const processImage = (
-  original: ImageData,
-  settings: DitherSettings
-): ImageData => {
-  const width = original.width;
-  const height = original.height;
-  const output = new ImageData(
-    new Uint8ClampedArray(original.data),
-    width,
-    height
-  );
-  const data = output.data;
+export const createStripProcessor = (
+  width: number,
+  height: number,
+  settings: DitherSettings,
+  onProgress?: ProgressCallback,
+  hooks: ProcessHooks = {},
+  adjustOnly = false // Stop after the adjustments, e.g. to show the source being dithered
+): StripProcessor => {
+  const { palette } = settings;
+  const algorithm = getAlgorithm(settings.algorithm);
+  const cmyk = settings.colorSpace === "CMYK";
+  // Ink separation works on device (sRGB) values
+  const linear = settings.linearLight && !cmyk && !algorithm.srgbOnly;
+
+  // Adjustments don't need the whole image, whatever the algorithm
+  const carryRows = adjustOnly ? 0 : getCarryRows(settings);
+  if (carryRows === undefined && width * height > WHOLE_IMAGE_MAX_PIXELS) {
+    throw new Error(
+      `${algorithm.name} works on the whole image at once, up to ${WHOLE_IMAGE_MAX_PIXELS / (1 << 20)} megapixels`
+    );
+  }
+  const align = algorithm.stripAlign?.(settings) ?? 1;
+  const stripRows =
+    carryRows === undefined
+      ? height
+      : Math.min(height, Math.max(align, Math.floor(STRIP_PIXELS / width / align) * align));
 
-  // 1. Adjustments (Brightness, Contrast, Levels, Noise)
-  // We handle pixel-level ops here.
+  const blurRadius = settings.blur ?? 0;
+  const sharpness = settings.sharpness ?? 0;
+  const filterPasses = (blurRadius > 0 ? 1 : 0) + (sharpness > 0 ? 1 : 0);
+  const halo = (blurRadius > 0 ? Math.ceil(blurRadius) : 0) + (sharpness > 0 ? UNSHARP_RADIUS : 0);
 
   const brightnessOffset = settings.brightness * 2.55; // -255 to 255
   const contrastFactor =
     (259 * (settings.contrast + 255)) / (255 * (259 - settings.contrast));
   const noiseAmount = settings.noise;
+  const noiseRandom = createStream(settings.seed ?? 0, RANDOM_STREAMS.noise);
+  const algorithmRandom = createStream(settings.seed ?? 0, RANDOM_STREAMS.algorithm);
 
   // Levels params
   const lMin = settings.levelsShadows ?? 0;
   const lMax = settings.levelsHighlights ?? 255;
   const lMid = settings.levelsMidtones ?? 1.0; // Gamma
 
+  const linearLUT = new Float32Array(256);
+  if (linear) {
+    for (let i = 0; i < 256; i++) linearLUT[i] = srgbToLinear(i) * 255;
+  }
+
   // Pre-calculate levels lookup table or handle per-pixel?
   // Per-pixel with pow() might be slow. Optimization: Lookup Table (LUT).
   // Creating a 0-255 LUT for the levels/gamma transformation.
@@ -234,355 +314,260 @@ export const processImage = (
       levelsLUT[i] = Math.round(normalized * 255);
   }
 
-  for (let i = 0; i < data.length; i += 4) {
-    let r = data[i];
-    let g = data[i + 1];
-    let b = data[i + 2];
-
-    // Levels (Apply first as it sets the tonal range)
-    r = levelsLUT[r];
-    g = levelsLUT[g];
-    b = levelsLUT[b];
-
-    // Contrast
-    r = contrastFactor * (r - 128) + 128;
-    g = contrastFactor * (g - 128) + 128;
-    b = contrastFactor * (b - 128) + 128;
-
-    // Brightness
-    r += brightnessOffset;
-    g += brightnessOffset;
-    b += brightnessOffset;
-
-    // Noise
-    if (noiseAmount > 0) {
-      const noise = (Math.random() - 0.5) * noiseAmount * 2;
-      r += noise;
-      g += noise;
-      b += noise;
+  const getClosestColor = createWorkingMatcher(palette, settings.colorMetric, linear);
+  const workingPalette = linear ? palette.map(toLinear) : palette;
+
+  // Error the previous strip passed into the rows below it
+  let carry: Float32Array | null = null;
+  // Same for the alpha channel's error diffusion
+  const alphaCarry = new Float32Array(width);
+  // CMYK: plates are collected over all strips and handed over at the end
+  let plates: CmykPlates | null = null;
+
+  const process = async (input: ImageData, top: number, rows: number, haloTop: number): Promise<ImageData> => {
+    const data = input.data;
+    const inputRows = input.height;
+    const output = new ImageData(width, rows);
+
+    // Each strip takes its share of the overall progress
+    const start = (top / height) * 100;
+    const span = (rows / height) * 100;
+    const reportFilter = createProgressReporter(onProgress, start, start + span * 0.08);
+    const reportAdjust = createProgressReporter(onProgress, start + span * 0.08, start + span * 0.1);
+    const report = createProgressReporter(onProgress, start + span * 0.1, start + span);
+
+    // 1. Spatial filters (Blur, Sharpness)
+    // Run on the float buffer before any tonal adjustment, so they see the
+    // source tones and don't round between stages. They cover the context
+    // rows too, so strip edges match the rest of the image.
+
+    let buffer = new Float32Array(width * inputRows * 3);
+    for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+      buffer[j] = data[i];
+      buffer[j + 1] = data[i + 1];
+      buffer[j + 2] = data[i + 2];
     }
 
-    data[i] = clamp(r);
-    data[i + 1] = clamp(g);
-    data[i + 2] = clamp(b);
-  }
-
-  // 2. Dithering
-  // Clone data for error diffusion so we don't mess up if we re-run (though we created 'output' already)
-  // Actually 'output' is our working buffer.
-
-  const { algorithm, palette } = settings;
-
-  if (algorithm === "Threshold") {
-     for (let i = 0; i < data.length; i += 4) {
-        const closest = getClosestColor(data[i], data[i+1], data[i+2], palette);
-        data[i] = closest.r;
-        data[i+1] = closest.g;
-        data[i+2] = closest.b;
-        data[i+3] = 255;
-     }
-     return output;
-  }
-
-  if (algorithm.startsWith("Ordered")) {
-    let map: number[][] = bayer2;
-    let div = 4;
-    if (algorithm.includes("4x4")) { map = bayer4; div = 16; }
-    if (algorithm.includes("8x8")) { map = bayer8; div = 64; }
+    let alpha = new Float32Array(width * inputRows);
+    let hasAlpha = false;
+    for (let i = 3, p = 0; i < data.length; i += 4, p++) {
+      alpha[p] = data[i];
+      if (data[i] < 255) hasAlpha = true;
+    }
 
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const i = getPixelIndex(x, y, width);
-        const r = data[i];
-        const g = data[i+1];
-        const b = data[i+2];
-
-        const threshold = ((map[y % map.length][x % map[0].length] + 0.5) / div) * 255;
-        
-        // Ordered dithering usually compares luminance to threshold, 
-        // OR adds threshold to color and then quantizes.
-        // Standard approach: color + (threshold - 128) -> Quantize
-        // Simpler for arbitrary palettes:
-        // We want to bias the color selection based on the threshold.
-        // A common trick for ordered dither with arbitrary palette:
-        // col = col + (threshold - 128) * spread
-        
-        const spread = 64; // Adjustable strength
-        const bias = (threshold - 128) / 128 * spread; // -spread/2 to spread/2 roughly
-
-        const r2 = clamp(r + bias);
-        const g2 = clamp(g + bias);
-        const b2 = clamp(b + bias);
-
-        const closest = getClosestColor(r2, g2, b2, palette);
-        data[i] = closest.r;
-        data[i+1] = closest.g;
-        data[i+2] = closest.b;
-        data[i+3] = 255;
+    let filterPass = 0;
+    const reportPass = (fraction: number) => reportFilter((filterPass + fraction) / filterPasses);
+
+    // Filter premultiplied colors, otherwise the (usually black) color of
+    // transparent pixels bleeds into the edges of opaque ones
+    const premultiply = hasAlpha && filterPasses > 0;
+    if (premultiply) {
+      for (let p = 0; p < alpha.length; p++) {
+        const a = alpha[p] / 255;
+        buffer[p * 3] *= a;
+        buffer[p * 3 + 1] *= a;
+        buffer[p * 3 + 2] *= a;
       }
     }
-    return output;
-  }
-  
-  if (algorithm === "Random" || algorithm === "Blue Noise") {
-      // Simple random dithering
-      for (let i = 0; i < data.length; i += 4) {
-          const r = data[i];
-          const g = data[i+1];
-          const b = data[i+2];
-          
-          const noise = (Math.random() - 0.5) * 64; 
-          const closest = getClosestColor(clamp(r + noise), clamp(g + noise), clamp(b + noise), palette);
-          
-          data[i] = closest.r;
-          data[i+1] = closest.g;
-          data[i+2] = closest.b;
-          data[i+3] = 255;
-      }
-      return output;
-  }
 
-  if (algorithm === "Checker") {
-    // checker: Vertical lines made of dots that warp based on image luminance
-    for (let i = 0; i < data.length; i += 4) {
-      const x = (i / 4) % width;
-      const y = Math.floor((i / 4) / width);
-
-      const r = data[i];
-      const g = data[i+1];
-      const b = data[i+2];
-
-      const lum = luminance(r, g, b); // 0-255
-
-      // 1. Define the vertical lines
-      // We start with a base X frequency (vertical stripes)
-      // We add a 'warp' factor based on luminance to bend the lines
-      const lineFreq = 0.6;
-      const warpStrength = (lum / 255) * 8.0; 
-      const xPhase = x * lineFreq + warpStrength;
-
-      // 2. Define the dots along the lines
-      // High frequency Y sine wave creates the "dots" pattern along the vertical line
-      const dotFreq = 0.6;
-      const yPhase = y * dotFreq;
-
-      // 3. Combine to create dotted lines
-      // sin(x) * sin(y) creates a grid of dots. Shifting x based on lum warps the grid.
-      // We threshold the sine wave product to make the dots sharper
-      const signal = Math.sin(xPhase) * Math.sin(yPhase);
-      
-      const bias = signal * 140;
-
-      const closest = getClosestColor(
-        clamp(r + bias),
-        clamp(g + bias),
-        clamp(b + bias),
-        palette
-      );
-
-      data[i] = closest.r;
-      data[i+1] = closest.g;
-      data[i+2] = closest.b;
-      data[i+3] = 255;
+    if (blurRadius > 0) {
+      buffer.set(gaussianBlur(buffer, width, inputRows, blurRadius, reportPass));
+      if (hasAlpha) alpha = blurAlpha(alpha, width, inputRows, blurRadius);
+      filterPass++;
     }
-    return output;
-  }
 
-  if (algorithm === "Circuitry") {
-    // PCB-style traces with sharp angles (only 0°, 45°, 90°, 135°)
-    // Traces follow luminance contours but maintain geometric precision
-    
-    const traceSpacing = 8; // Pixels between parallel traces
-    const traceWidth = 2; // Width of each trace
-    
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const i = getPixelIndex(x, y, width);
-        const r = data[i];
-        const g = data[i+1];
-        const b = data[i+2];
-        const lum = luminance(r, g, b);
-        
-        // Divide image into regions based on luminance
-        // Each region gets a distinct trace direction
-        const lumBand = Math.floor((lum / 255) * 8);
-        
-        let isTrace = false;
-        
-        // Determine trace direction based on luminance band
-        // Use strict geometric angles only
-        const direction = lumBand % 4;
-        
-        if (direction === 0) {
-          // Horizontal traces (0°)
-          isTrace = (y % traceSpacing) < traceWidth;
-        } else if (direction === 1) {
-          // Vertical traces (90°)
-          isTrace = (x % traceSpacing) < traceWidth;
-        } else if (direction === 2) {
-          // Diagonal traces (45°)
-          isTrace = ((x + y) % traceSpacing) < traceWidth;
-        } else {
-          // Diagonal traces (135°)
-          isTrace = ((x - y + height) % traceSpacing) < traceWidth;
-        }
-        
-        // Add some via/pad features at intersections
-        const viaSize = 3;
-        const viaSpacing = 32;
-        const isVia = (x % viaSpacing < viaSize) && (y % viaSpacing < viaSize);
-        
-        // Add occasional breaks in traces for realism
-        const hasBreak = (Math.sin(x * 0.13) * Math.sin(y * 0.17) > 0.95);
-        
-        let bias = 0;
-        if (isVia) {
-          bias = 140; // Bright via
-        } else if (isTrace && !hasBreak) {
-          bias = 100; // Trace line
-        } else {
-          bias = -100; // Background
-        }
+    if (sharpness > 0) {
+      const blurred = gaussianBlur(buffer, width, inputRows, UNSHARP_RADIUS, reportPass);
+      const amount = sharpness / 50;
+      for (let j = 0; j < buffer.length; j++) {
+        buffer[j] += amount * (buffer[j] - blurred[j]);
+      }
+      filterPass++;
+    }
 
-        const closest = getClosestColor(
-          clamp(r + bias),
-          clamp(g + bias),
-          clamp(b + bias),
-          palette
-        );
-
-        data[i] = closest.r;
-        data[i+1] = closest.g;
-        data[i+2] = closest.b;
-        data[i+3] = 255;
+    if (premultiply) {
+      for (let p = 0; p < alpha.length; p++) {
+        if (alpha[p] === 0) continue;
+        const a = alpha[p] / 255;
+        buffer[p * 3] /= a;
+        buffer[p * 3 + 1] /= a;
+        buffer[p * 3 + 2] /= a;
       }
     }
-    return output;
-  }
-  
-  if (algorithm === "Fizz") {
-     // Fizz: Duplicate of OLD Circuitry (before the straight lines change)
-     // Returns to the more contour-following, multi-angle style with noise
-    for (let i = 0; i < data.length; i += 4) {
-      const x = (i / 4) % width;
-      const y = Math.floor((i / 4) / width);
-
-      const r = data[i];
-      const g = data[i+1];
-      const b = data[i+2];
-
-      const lum = luminance(r, g, b); // 0-255
-
-      // Quantize luminance to separate image into regions (isophotes)
-      const bands = 12; 
-      const lumLevel = Math.floor((lum / 255) * bands);
-      
-      let phase = 0;
-      const freq = 0.8; 
-      
-      // We alternate directions to delineate contours
-      // Original logic with 3 directions
-      const type = lumLevel % 3;
-      
-      if (type === 0) {
-          // Vertical Lines (90 deg)
-          phase = x * freq;
-      } else if (type === 1) {
-          // Diagonal (45 deg)
-          phase = (x + y) * (freq * 0.707);
-      } else {
-          // Diagonal (135 deg)
-          phase = (x - y) * (freq * 0.707);
+
+    // Drop the context rows. Algorithms that carry error get extra rows
+    // below the strip to collect it, unless it is the last one.
+    const below = top + rows < height ? Math.min(carryRows ?? 0, height - top - rows) : 0;
+    const working = new Float32Array(width * (rows + below) * 3);
+    working.set(buffer.subarray(haloTop * width * 3, (haloTop + rows) * width * 3));
+    buffer = working;
+    alpha = alpha.slice(haloTop * width, (haloTop + rows) * width);
+
+    // 2. Adjustments (Brightness, Contrast, Levels, Noise)
+    // We handle pixel-level ops here.
+
+    const pixels = width * rows;
+    const reference = hooks.onReference || adjustOnly ? new ImageData(width, rows) : null;
+    for (let p = 0, j = 0; p < pixels; p++, j += 3) {
+      reportAdjust(p / pixels);
+      let r = buffer[j];
+      let g = buffer[j + 1];
+      let b = buffer[j + 2];
+
+      // Levels (Apply first as it sets the tonal range)
+      r = levelsLUT[Math.round(clamp(r))];
+      g = levelsLUT[Math.round(clamp(g))];
+      b = levelsLUT[Math.round(clamp(b))];
+
+      // Contrast
+      r = contrastFactor * (r - 128) + 128;
+      g = contrastFactor * (g - 128) + 128;
+      b = contrastFactor * (b - 128) + 128;
+
+      // Brightness
+      r += brightnessOffset;
+      g += brightnessOffset;
+      b += brightnessOffset;
+
+      // Noise
+      if (noiseAmount > 0) {
+        const noise = (noiseRandom() - 0.5) * noiseAmount * 2;
+        r += noise;
+        g += noise;
+        b += noise;
       }
-      
-      // Shift phase per band so lines don't align at boundaries
-      phase += lumLevel * 100;
 
-      // Create sharp traces
-      const traceSignal = Math.abs(Math.sin(phase));
-      const isTrace = traceSignal < 0.25; // Thinner, crisper traces
-      
-      let bias = 0;
-      if (isTrace) {
-          bias = 120;
-          // Circuitry noise: break lines occasionally
-          if (Math.sin(x * 0.23) * Math.sin(y * 0.17) > 0.8) bias = -50;
-      } else {
-          bias = -120;
+      if (reference) {
+        reference.data[p * 4] = r;
+        reference.data[p * 4 + 1] = g;
+        reference.data[p * 4 + 2] = b;
+        reference.data[p * 4 + 3] = alpha[p];
       }
 
-      const closest = getClosestColor(
-        clamp(r + bias),
-        clamp(g + bias),
-        clamp(b + bias),
-        palette
-      );
-
-      data[i] = closest.r;
-      data[i+1] = closest.g;
-      data[i+2] = closest.b;
-      data[i+3] = 255;
+      if (linear) {
+        buffer[j] = linearLUT[Math.round(clamp(r))];
+        buffer[j + 1] = linearLUT[Math.round(clamp(g))];
+        buffer[j + 2] = linearLUT[Math.round(clamp(b))];
+      } else {
+        buffer[j] = clamp(r);
+        buffer[j + 1] = clamp(g);
+        buffer[j + 2] = clamp(b);
+      }
     }
-    return output;
-  }
 
-  // Error Diffusion (Floyd-Steinberg, etc.)
-  const kernel = KERNELS[algorithm];
-  if (!kernel) return output; // Should not happen
-
-  // We need to work with numbers that can exceed 0-255 temporarily for error propagation
-  // The Uint8ClampedArray will clamp automatically on write, which destroys error info.
-  // So we need a Float32 buffer or similar.
-  const buffer = new Float32Array(width * height * 3);
-  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
-    buffer[j] = data[i];
-    buffer[j + 1] = data[i + 1];
-    buffer[j + 2] = data[i + 2];
-  }
+    if (reference && adjustOnly) {
+      report(1);
+      return reference;
+    }
 
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 3;
-      const oldR = buffer[idx];
-      const oldG = buffer[idx + 1];
-      const oldB = buffer[idx + 2];
-
-      const closest = getClosestColor(oldR, oldG, oldB, palette);
-
-      // Quantize
-      buffer[idx] = closest.r;
-      buffer[idx + 1] = closest.g;
-      buffer[idx + 2] = closest.b;
-
-      // Calculate Error
-      const errR = oldR - closest.r;
-      const errG = oldG - closest.g;
-      const errB = oldB - closest.b;
-
-      // Distribute Error
-      for (const item of kernel.items) {
-        const nx = x + item.x;
-        const ny = y + item.y;
-
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          const nIdx = (ny * width + nx) * 3;
-          const factor = item.w / kernel.divisor;
-
-          buffer[nIdx] += errR * factor;
-          buffer[nIdx + 1] += errG * factor;
-          buffer[nIdx + 2] += errB * factor;
-        }
+    // 3. Dithering
+
+    // Alpha is either kept or dithered to 1-bit on its own, before the colors,
+    // so the color pass knows which pixels end up fully transparent
+    const outputAlpha = settings.alphaDither
+      ? ditherAlpha(alpha, width, rows, settings.alphaAlgorithm ?? "Threshold", settings.blueNoiseSize ?? 64, top, alphaCarry)
+      : alpha;
+    // Fully transparent pixels neither pass on nor receive error
+    const isOpaque = (p: number) => !hasAlpha || p >= pixels || outputAlpha[p] > 0;
+
+    // Error from the previous strip. Rows past this strip's own are carried
+    // on; transparent pixels don't take any, as in a single pass.
+    let uncarried = buffer;
+    if (carry) {
+      uncarried = buffer.slice();
+      const carried = Math.min(carry.length, buffer.length);
+      for (let j = 0; j < carried; j++) {
+        if (isOpaque(Math.floor(j / 3))) buffer[j] += carry[j];
       }
+      carry = null;
     }
-  }
 
-  // Copy back to output
-  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
-    data[i] = clamp(buffer[j]);
-    data[i + 1] = clamp(buffer[j + 1]);
-    data[i + 2] = clamp(buffer[j + 2]);
-    data[i + 3] = 255;
-  }
+    // Encodes the quantized buffer back into the output image
+    const writeOutput = () => {
+      const out = output.data;
+      const encode = linear ? linearToSrgb : clamp;
+      for (let i = 0, j = 0, p = 0; i < out.length; i += 4, j += 3, p++) {
+        out[i] = encode(buffer[j]);
+        out[i + 1] = encode(buffer[j + 1]);
+        out[i + 2] = encode(buffer[j + 2]);
+        out[i + 3] = outputAlpha[p];
+      }
+      return output;
+    };
+
+    const finish = () => {
+      writeOutput();
+      if (reference) hooks.onReference?.(reference, output);
+      return output;
+    };
+
+    if (cmyk) {
+      // Replaces both the palette and the algorithm: each plate gets its own
+      // halftone screen and the preview shows them overprinted
+      const strip = separateCmyk(buffer, width, rows, settings, report, top);
+      compositeCmyk(strip, buffer);
+      if (!plates) {
+        plates = { width, height, plates: strip.plates.map(() => new Uint8Array(width * height)) };
+      }
+      strip.plates.forEach((plate, k) => plates!.plates[k].set(plate, top * width));
+      if (top + rows === height) hooks.onPlates?.(plates);
+      return finish();
+    }
 
-  return output;
+    const ctx: DitherContext = {
+      buffer,
+      input: uncarried,
+      width,
+      height: rows,
+      top,
+      imageHeight: height,
+      settings,
+      palette: workingPalette,
+      linear,
+      getClosestColor,
+      isOpaque,
+      random: algorithmRandom,
+      report,
+      writeOutput,
+      dither: (id, reportStep) => {
+        const next = getAlgorithm(id);
+        if (!linear || !next.srgbOnly) {
+          next.run({ ...ctx, report: reportStep });
+          return;
+        }
+        // Runs on encoded values, then brings its palette colors back to linear
+        for (let j = 0; j < buffer.length; j++) buffer[j] = linearToSrgb(buffer[j]);
+        next.run({
+          ...ctx,
+          palette,
+          linear: false,
+          getClosestColor: getColorMatcher(palette, settings.colorMetric),
+          report: reportStep,
+        });
+        for (let j = 0; j < buffer.length; j++) buffer[j] = srgbToLinear(buffer[j]) * 255;
+      },
+      onIteration: hooks.onIteration,
+      shouldStop: hooks.shouldStop ?? (async () => false),
+    };
+
+    await algorithm.run(ctx);
+    if (below > 0) carry = buffer.slice(pixels * 3);
+    return finish();
+  };
+
+  return { stripRows, halo, process };
 };
+
+// Whole image in a single strip
+export const processImage = (
+  original: ImageData,
+  settings: DitherSettings,
+  onProgress?: ProgressCallback,
+  hooks: ProcessHooks = {}
+): Promise<ImageData> =>
+  createStripProcessor(original.width, original.height, settings, onProgress, hooks).process(
+    original,
+    0,
+    original.height,
+    0
+  );
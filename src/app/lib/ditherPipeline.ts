@@ -0,0 +1,170 @@
+import { DitherSettings } from "../types";
+import type { DitherJob, DitherStop, DitherWorkerMessage } from "./dither.worker";
+import type { ProgressCallback } from "./ditherAlgorithms";
+import type { CmykPlates } from "./cmyk";
+import type { DitherMetrics } from "./metrics";
+
+export type DitherResult = {
+  plates: CmykPlates | null; // Only in CMYK mode
+  metrics: DitherMetrics;
+};
+
+// Finished rows of the result, starting at image row `top`, and the same rows
+// of the adjusted source they were dithered from when requested
+export type StripCallback = (strip: ImageData, top: number, adjusted?: ImageData) => void;
+
+// Intermediate results of iterative algorithms (DBS), after each pass
+export type IterationCallback = (image: ImageData, pass: number) => void;
+
+type PendingJob = {
+  id: number;
+  width: number;
+  height: number;
+  resolve: (result: DitherResult | null) => void;
+  reject: (err: Error) => void;
+  onStrip: StripCallback;
+  onProgress?: ProgressCallback;
+  onIteration?: IterationCallback;
+};
+
+// Dithers images in a Web Worker, one job at a time. The result arrives in
+// strips, top to bottom, as the worker finishes them.
+// Starting a new job supersedes the previous one: its promise resolves to null
+// and any messages still in flight for it are dropped by job id.
+export const createDitherPipeline = () => {
+  let worker: Worker | null = null;
+  let pending: PendingJob | null = null;
+  let nextId = 0;
+
+  const handleMessage = (event: MessageEvent<DitherWorkerMessage>) => {
+    const message = event.data;
+    if (!pending || message.id !== pending.id) return; // Stale job
+
+    if (message.type === "progress") {
+      pending.onProgress?.(message.progress);
+      return;
+    }
+    if (message.type === "strip") {
+      const { width, height } = message;
+      const strip = new ImageData(new Uint8ClampedArray(message.buffer), width, height);
+      const adjusted = message.adjusted
+        ? new ImageData(new Uint8ClampedArray(message.adjusted), width, height)
+        : undefined;
+      pending.onStrip(strip, message.top, adjusted);
+      return;
+    }
+    if (message.type === "iteration") {
+      const image = new ImageData(new Uint8ClampedArray(message.buffer), message.width, message.height);
+      pending.onIteration?.(image, message.pass);
+      return;
+    }
+
+    const job = pending;
+    pending = null;
+    if (message.type === "result") {
+      const { width, height } = job;
+      job.resolve({
+        plates: message.plates
+          ? { width, height, plates: message.plates.map((plate) => new Uint8Array(plate)) }
+          : null,
+        metrics: message.metrics,
+      });
+    } else {
+      job.reject(new Error(message.message));
+    }
+  };
+
+  const spawn = () => {
+    const w = new Worker(new URL("./dither.worker.ts", import.meta.url), { type: "module" });
+    w.onmessage = handleMessage;
+    w.onerror = (event) => {
+      event.preventDefault();
+      const job = pending;
+      pending = null;
+      // The worker may be in a broken state, start fresh on the next job
+      w.terminate();
+      if (worker === w) worker = null;
+      job?.reject(new Error(event.message || "Dither worker failed"));
+    };
+    return w;
+  };
+
+  // Drops the current job. The strip loop only looks at new messages between
+  // DBS passes, so the only way to drop it right away is to terminate.
+  const cancel = () => {
+    if (!pending) return;
+    const job = pending;
+    pending = null;
+    worker?.terminate();
+    worker = null;
+    job.resolve(null);
+  };
+
+  // Lets the current job finish early with its last DBS pass. Its promise
+  // still resolves with the strips, plates and metrics of that pass.
+  const stop = () => {
+    if (!pending) return;
+    const message: DitherStop = { type: "stop", id: pending.id };
+    worker?.postMessage(message);
+  };
+
+  const start = (
+    job: Omit<DitherJob, "type" | "id">,
+    onStrip: StripCallback,
+    onProgress?: ProgressCallback,
+    onIteration?: IterationCallback
+  ): Promise<DitherResult | null> => {
+    cancel();
+    if (!worker) worker = spawn();
+
+    const id = ++nextId;
+    const { source, width, height } = job;
+    const message: DitherJob = { ...job, type: "run", id };
+
+    return new Promise((resolve, reject) => {
+      pending = { id, width, height, resolve, reject, onStrip, onProgress, onIteration };
+      worker!.postMessage(message, source instanceof Blob ? [] : [source]);
+    });
+  };
+
+  // Note: a source bitmap is transferred to the worker and becomes unusable.
+  // An image file is decoded by the worker instead, so the main thread never
+  // holds its pixels. `withAdjusted` also streams the adjusted source, which
+  // doubles the pixels sent back, so only comparison views ask for it.
+  const run = (
+    source: ImageBitmap | Blob,
+    width: number,
+    height: number,
+    settings: DitherSettings,
+    onStrip: StripCallback,
+    onProgress?: ProgressCallback,
+    onIteration?: IterationCallback,
+    withAdjusted = false
+  ) =>
+    start(
+      { source, width, height, settings, withAdjusted, adjustOnly: false },
+      onStrip,
+      onProgress,
+      onIteration
+    );
+
+  // Streams only the adjusted source as strips, without dithering it: for a
+  // comparison with a result that is already shown
+  const adjust = (
+    source: ImageBitmap | Blob,
+    width: number,
+    height: number,
+    settings: DitherSettings,
+    onStrip: StripCallback
+  ) => start({ source, width, height, settings, withAdjusted: false, adjustOnly: true }, onStrip);
+
+  const dispose = () => {
+    cancel();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return { run, adjust, stop, cancel, dispose };
+};
+
+export type DitherPipeline = ReturnType<typeof createDitherPipeline>;
@@ -0,0 +1,104 @@
+import { HalftoneDotShape } from "../types";
+
+// --- AM Halftone Screens ---
+// Clustered-dot screens as used in print: dots sit on a grid rotated by the
+// screen angle and grow with darkness. Thresholds are evaluated per pixel
+// from the continuous spot function, so any angle and frequency works
+// without a pre-built (and necessarily approximated) tile.
+
+export const HALFTONE_DOT_SHAPES: HalftoneDotShape[] = [
+  "Round",
+  "Elliptical",
+  "Square",
+  "Line",
+  "Diamond",
+];
+
+// Resolution of the source image at 100% resolution scale. The processed
+// image has BASE_DPI * resolutionScale pixels per inch.
+export const BASE_DPI = 300;
+
+// Below this the cell can no longer hold a recognizable dot
+const MIN_CELL_SIZE = 2;
+
+// Spot functions over a cell, u and v in [-1, 1] with the dot centered at
+// 0. Larger values are inked first as the tone darkens.
+const SPOT_FUNCTIONS: Record<HalftoneDotShape, (u: number, v: number) => number> = {
+  // Euclidean dot: round dots that join into a checkerboard at 50% and turn
+  // into round holes beyond it
+  Round: (u, v) => {
+    const au = Math.abs(u);
+    const av = Math.abs(v);
+    return au + av <= 1
+      ? 1 - (u * u + v * v)
+      : (1 - au) * (1 - au) + (1 - av) * (1 - av) - 1;
+  },
+  Elliptical: (u, v) => 1 - (u * u + (v * v) / 0.5625),
+  Square: (u, v) => 1 - Math.max(Math.abs(u), Math.abs(v)),
+  Line: (_u, v) => 1 - Math.abs(v),
+  Diamond: (u, v) => 1 - (Math.abs(u) + Math.abs(v)),
+};
+
+// Spot values are turned into coverage ranks so tone reproduction is linear
+// whatever the shape: a threshold of t means t of the cell is inked before
+// this point is.
+const RANK_SAMPLES = 128;
+const rankCache = new Map<HalftoneDotShape, Float32Array>();
+
+const getSortedSpotValues = (shape: HalftoneDotShape) => {
+  let sorted = rankCache.get(shape);
+  if (!sorted) {
+    const spot = SPOT_FUNCTIONS[shape];
+    sorted = new Float32Array(RANK_SAMPLES * RANK_SAMPLES);
+    for (let y = 0; y < RANK_SAMPLES; y++) {
+      for (let x = 0; x < RANK_SAMPLES; x++) {
+        const u = ((x + 0.5) / RANK_SAMPLES) * 2 - 1;
+        const v = ((y + 0.5) / RANK_SAMPLES) * 2 - 1;
+        sorted[y * RANK_SAMPLES + x] = spot(u, v);
+      }
+    }
+    sorted.sort();
+    rankCache.set(shape, sorted);
+  }
+  return sorted;
+};
+
+export type HalftoneScreen = (x: number, y: number) => number;
+
+// Returns the threshold (0-1) for a pixel: it should be inked once the
+// tone's darkness exceeds it
+export const createHalftoneScreen = (
+  lpi: number,
+  angle: number,
+  shape: HalftoneDotShape,
+  dpi: number
+): HalftoneScreen => {
+  const cellSize = Math.max(MIN_CELL_SIZE, dpi / Math.max(1, lpi));
+  const rad = (angle * Math.PI) / 180;
+  const cos = Math.cos(rad) / cellSize;
+  const sin = Math.sin(rad) / cellSize;
+  const spot = SPOT_FUNCTIONS[shape] ?? SPOT_FUNCTIONS.Round;
+  const sorted = getSortedSpotValues(shape in SPOT_FUNCTIONS ? shape : "Round");
+  const n = sorted.length;
+
+  return (x, y) => {
+    // Pixel centers in screen space, one unit per cell
+    const px = x + 0.5;
+    const py = y + 0.5;
+    const su = px * cos + py * sin;
+    const sv = py * cos - px * sin;
+    const u = (su - Math.floor(su)) * 2 - 1;
+    const v = (sv - Math.floor(sv)) * 2 - 1;
+    const value = spot(u, v);
+
+    // Count samples with a larger spot value (inked earlier)
+    let lo = 0;
+    let hi = n;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] <= value) lo = mid + 1;
+      else hi = mid;
+    }
+    return (n - lo + 0.5) / (n + 1);
+  };
+};
@@ -0,0 +1,85 @@
+// --- Generalized Hilbert Curve ---
+// Jakub Červený's "gilbert" construction: a Hilbert-like space-filling curve
+// for arbitrary width x height rectangles, so non-power-of-two canvases are
+// covered exactly once without walking (and skipping) a padded square.
+
+const sign = (v: number) => (v > 0 ? 1 : v < 0 ? -1 : 0);
+
+// Splits the block spanned by major axis (ax, ay) and minor axis (bx, by)
+// starting at (x, y)
+const generate = (
+  x: number,
+  y: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+  visit: (x: number, y: number) => void
+): void => {
+  const w = Math.abs(ax + ay);
+  const h = Math.abs(bx + by);
+  const dax = sign(ax), day = sign(ay); // Unit major direction
+  const dbx = sign(bx), dby = sign(by); // Unit minor direction
+
+  if (h === 1) {
+    for (let i = 0; i < w; i++) {
+      visit(x, y);
+      x += dax;
+      y += day;
+    }
+    return;
+  }
+
+  if (w === 1) {
+    for (let i = 0; i < h; i++) {
+      visit(x, y);
+      x += dbx;
+      y += dby;
+    }
+    return;
+  }
+
+  let ax2 = Math.floor(ax / 2), ay2 = Math.floor(ay / 2);
+  let bx2 = Math.floor(bx / 2), by2 = Math.floor(by / 2);
+  const w2 = Math.abs(ax2 + ay2);
+  const h2 = Math.abs(bx2 + by2);
+
+  if (2 * w > 3 * h) {
+    // Long block: split in two halves along the major axis
+    if (w2 % 2 && w > 2) {
+      // Prefer even steps
+      ax2 += dax;
+      ay2 += day;
+    }
+    generate(x, y, ax2, ay2, bx, by, visit);
+    generate(x + ax2, y + ay2, ax - ax2, ay - ay2, bx, by, visit);
+  } else {
+    // Standard case: up, long horizontal, down
+    if (h2 % 2 && h > 2) {
+      bx2 += dbx;
+      by2 += dby;
+    }
+    generate(x, y, bx2, by2, ax2, ay2, visit);
+    generate(x + bx2, y + by2, ax, ay, bx - bx2, by - by2, visit);
+    generate(
+      x + (ax - dax) + (bx2 - dbx),
+      y + (ay - day) + (by2 - dby),
+      -bx2,
+      -by2,
+      -(ax - ax2),
+      -(ay - ay2),
+      visit
+    );
+  }
+};
+
+// Calls visit once for every pixel, in curve order
+export const walkHilbertCurve = (
+  width: number,
+  height: number,
+  visit: (x: number, y: number) => void
+) => {
+  if (width <= 0 || height <= 0) return;
+  if (width >= height) generate(0, 0, width, 0, 0, height, visit);
+  else generate(0, 0, 0, height, width, 0, visit);
+};
@@ -0,0 +1,117 @@
+import { Color } from "../types";
+import { gaussianBlur } from "./ditherAlgorithms";
+import { luminance } from "./algorithms/shared";
+
+// --- Quality Metrics ---
+// Objective comparison of the dithered output against the adjusted source
+// (after filters and tone adjustments, before quantization). Fully
+// transparent output pixels are left out.
+
+export type PaletteUsage = {
+  color: Color;
+  count: number; // Output pixels of this color
+};
+
+export type DitherMetrics = {
+  psnr: number; // dB over RGB; Infinity for an exact match
+  ssim: number; // Mean SSIM of luminance, 1 = identical structure
+  lowPassMse: number; // Luminance MSE after both are blurred as if seen from a distance
+  usage: PaletteUsage[]; // Palette colors first, then any others (e.g. CMYK overprints)
+};
+
+// SSIM over a Gaussian window (sigma 1.5), with the usual stabilizing constants
+const SSIM_RADIUS = 3;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Low-pass standing in for the eye at viewing distance: dither patterns finer
+// than this average out, so what remains is visible tone error (sigma 2)
+const VIEWING_RADIUS = 4;
+
+const colorKey = (r: number, g: number, b: number) => (r << 16) | (g << 8) | b;
+
+// Metrics are gathered strip by strip, as the pipeline produces them. Windows
+// don't cross strip boundaries, which only touches a few rows per strip.
+export const createMetricsAccumulator = (palette: Color[]) => {
+  let pixels = 0;
+  let squaredError = 0;
+  let ssimSum = 0;
+  let lowPassError = 0;
+  const counts = new Map<number, number>();
+
+  const add = (reference: ImageData, output: ImageData) => {
+    const source = reference.data;
+    const { width, height, data } = output;
+    const count = width * height;
+
+    // Luminance of both, packed so one blur handles all window statistics
+    const means = new Float32Array(count * 3); // x, y, x*y
+    const squares = new Float32Array(count * 3); // x², y², unused
+    for (let p = 0, i = 0, j = 0; p < count; p++, i += 4, j += 3) {
+      const x = luminance(source[i], source[i + 1], source[i + 2]);
+      const y = luminance(data[i], data[i + 1], data[i + 2]);
+      means[j] = x;
+      means[j + 1] = y;
+      means[j + 2] = x * y;
+      squares[j] = x * x;
+      squares[j + 1] = y * y;
+    }
+
+    const local = gaussianBlur(means, width, height, SSIM_RADIUS);
+    const localSquares = gaussianBlur(squares, width, height, SSIM_RADIUS);
+    const seen = gaussianBlur(means, width, height, VIEWING_RADIUS);
+
+    for (let p = 0, i = 0, j = 0; p < count; p++, i += 4, j += 3) {
+      if (data[i + 3] === 0) continue;
+      pixels++;
+
+      const dr = source[i] - data[i];
+      const dg = source[i + 1] - data[i + 1];
+      const db = source[i + 2] - data[i + 2];
+      squaredError += dr * dr + dg * dg + db * db;
+
+      const mx = local[j];
+      const my = local[j + 1];
+      const vx = localSquares[j] - mx * mx;
+      const vy = localSquares[j + 1] - my * my;
+      const cov = local[j + 2] - mx * my;
+      ssimSum +=
+        ((2 * mx * my + SSIM_C1) * (2 * cov + SSIM_C2)) /
+        ((mx * mx + my * my + SSIM_C1) * (vx + vy + SSIM_C2));
+
+      const dl = seen[j] - seen[j + 1];
+      lowPassError += dl * dl;
+
+      const key = colorKey(data[i], data[i + 1], data[i + 2]);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  };
+
+  const result = (): DitherMetrics => {
+    const mse = pixels ? squaredError / (pixels * 3) : 0;
+
+    const usage: PaletteUsage[] = [];
+    const listed = new Set<number>();
+    for (const color of palette) {
+      const key = colorKey(color.r, color.g, color.b);
+      if (listed.has(key)) continue;
+      listed.add(key);
+      usage.push({ color, count: counts.get(key) ?? 0 });
+    }
+    const others = [...counts].filter(([key]) => !listed.has(key)).sort((a, b) => b[1] - a[1]);
+    for (const [key, count] of others) {
+      usage.push({ color: { r: (key >> 16) & 255, g: (key >> 8) & 255, b: key & 255 }, count });
+    }
+
+    return {
+      psnr: mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse),
+      ssim: pixels ? ssimSum / pixels : 1,
+      lowPassMse: pixels ? lowPassError / pixels : 0,
+      usage,
+    };
+  };
+
+  return { add, result };
+};
+
+export type MetricsAccumulator = ReturnType<typeof createMetricsAccumulator>;
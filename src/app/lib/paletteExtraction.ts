@@ -0,0 +1,303 @@
+import { Color } from "../types";
+import { createRandom } from "./random";
+
+// --- Palette Extraction ---
+// Picks N representative colors from an image. Input is RGBA pixel data;
+// pixels that are mostly transparent don't contribute.
+
+export type PaletteExtractionMethod = "Median Cut" | "K-Means" | "Octree";
+
+export const PALETTE_EXTRACTION_METHODS: PaletteExtractionMethod[] = [
+  "Median Cut",
+  "K-Means",
+  "Octree",
+];
+
+export const MIN_EXTRACTED_COLORS = 2;
+export const MAX_EXTRACTED_COLORS = 256;
+
+// Enough to represent any image's color distribution; keeps k-means fast
+const MAX_SAMPLES = 20000;
+const KMEANS_ITERATIONS = 16;
+// Fixed, so extracting twice from the same image gives the same palette
+const KMEANS_SEED = 1;
+
+type Vec3 = [number, number, number];
+
+const collectSamples = (data: Uint8ClampedArray): Vec3[] => {
+  const pixelCount = data.length / 4;
+  const step = Math.max(1, Math.floor(pixelCount / MAX_SAMPLES));
+  const samples: Vec3[] = [];
+  for (let p = 0; p < pixelCount; p += step) {
+    const i = p * 4;
+    if (data[i + 3] < 128) continue;
+    samples.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  return samples;
+};
+
+const distanceSq = (a: Vec3, b: Vec3) =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const average = (points: Vec3[]): Vec3 => {
+  const sum: Vec3 = [0, 0, 0];
+  for (const p of points) {
+    sum[0] += p[0];
+    sum[1] += p[1];
+    sum[2] += p[2];
+  }
+  return [sum[0] / points.length, sum[1] / points.length, sum[2] / points.length];
+};
+
+// --- Median Cut ---
+// Repeatedly splits the box with the widest channel range at its median
+
+const medianCut = (samples: Vec3[], count: number): Vec3[] => {
+  const channelRange = (box: Vec3[]) => {
+    let best = 0;
+    let bestRange = -1;
+    for (let c = 0; c < 3; c++) {
+      let lo = 255;
+      let hi = 0;
+      for (const p of box) {
+        if (p[c] < lo) lo = p[c];
+        if (p[c] > hi) hi = p[c];
+      }
+      if (hi - lo > bestRange) {
+        bestRange = hi - lo;
+        best = c;
+      }
+    }
+    return { channel: best, range: bestRange };
+  };
+
+  const boxes = [samples];
+  while (boxes.length < count) {
+    let target = -1;
+    let targetRange = 0;
+    boxes.forEach((box, k) => {
+      if (box.length < 2) return;
+      const { range } = channelRange(box);
+      if (range > targetRange) {
+        targetRange = range;
+        target = k;
+      }
+    });
+    if (target < 0) break; // Every box is a single color
+
+    const box = boxes[target];
+    const { channel } = channelRange(box);
+    box.sort((a, b) => a[channel] - b[channel]);
+    const mid = Math.floor(box.length / 2);
+    boxes.splice(target, 1, box.slice(0, mid), box.slice(mid));
+  }
+  return boxes.map(average);
+};
+
+// --- K-Means ---
+// k-means++ seeding: each new center is picked with probability proportional
+// to its squared distance from the nearest existing one
+
+const kMeans = (samples: Vec3[], count: number): Vec3[] => {
+  const random = createRandom(KMEANS_SEED);
+  const centers: Vec3[] = [samples[Math.floor(random() * samples.length)]];
+  const nearest = samples.map((p) => distanceSq(p, centers[0]));
+
+  while (centers.length < count) {
+    const total = nearest.reduce((sum, d) => sum + d, 0);
+    if (total === 0) break; // Fewer distinct colors than requested
+    let pick = random() * total;
+    let index = 0;
+    while (index < samples.length - 1 && pick >= nearest[index]) {
+      pick -= nearest[index];
+      index++;
+    }
+    const center = samples[index];
+    centers.push(center);
+    for (let k = 0; k < samples.length; k++) {
+      nearest[k] = Math.min(nearest[k], distanceSq(samples[k], center));
+    }
+  }
+
+  // Lloyd iterations
+  const assignment = new Int32Array(samples.length);
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    let moved = false;
+    samples.forEach((p, k) => {
+      let best = 0;
+      let bestDist = Infinity;
+      for (let c = 0; c < centers.length; c++) {
+        const d = distanceSq(p, centers[c]);
+        if (d < bestDist) {
+          bestDist = d;
+          best = c;
+        }
+      }
+      if (assignment[k] !== best) moved = true;
+      assignment[k] = best;
+    });
+
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    samples.forEach((p, k) => {
+      const s = sums[assignment[k]];
+      s[0] += p[0];
+      s[1] += p[1];
+      s[2] += p[2];
+      s[3]++;
+    });
+    sums.forEach((s, c) => {
+      // Empty clusters keep their center
+      if (s[3] > 0) centers[c] = [s[0] / s[3], s[1] / s[3], s[2] / s[3]];
+    });
+    if (!moved && iter > 0) break;
+  }
+  return centers;
+};
+
+// --- Octree ---
+// Colors are inserted into an 8-level octree (one bit per channel per
+// level); the deepest nodes are folded into their parents until at most
+// `count` leaves remain
+
+type OctreeNode = {
+  children: (OctreeNode | null)[];
+  count: number;
+  sum: Vec3;
+  leaf: boolean;
+};
+
+const OCTREE_DEPTH = 8;
+
+const octree = (samples: Vec3[], count: number): Vec3[] => {
+  const createNode = (): OctreeNode => ({
+    children: new Array(8).fill(null),
+    count: 0,
+    sum: [0, 0, 0],
+    leaf: false,
+  });
+  const root = createNode();
+  // Inner nodes per level, candidates for folding
+  const levels: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  let leafCount = 0;
+
+  for (const [r, g, b] of samples) {
+    let node = root;
+    for (let level = 0; level < OCTREE_DEPTH && !node.leaf; level++) {
+      const shift = 7 - level;
+      const index = (((r >> shift) & 1) << 2) | (((g >> shift) & 1) << 1) | ((b >> shift) & 1);
+      let child = node.children[index];
+      if (!child) {
+        child = createNode();
+        if (level === OCTREE_DEPTH - 1) {
+          child.leaf = true;
+          leafCount++;
+        } else {
+          levels[level + 1].push(child);
+        }
+        node.children[index] = child;
+      }
+      node = child;
+    }
+    node.count++;
+    node.sum[0] += r;
+    node.sum[1] += g;
+    node.sum[2] += b;
+  }
+
+  // Fold from the deepest level up, least-used nodes first
+  for (let level = OCTREE_DEPTH - 1; level > 0 && leafCount > count; level--) {
+    const counts = new Map(levels[level].map((node) => [node, subtreeCount(node)]));
+    const nodes = levels[level].sort((a, b) => counts.get(a)! - counts.get(b)!);
+    for (const node of nodes) {
+      if (leafCount <= count) break;
+      let merged = 0;
+      for (let k = 0; k < 8; k++) {
+        const child = node.children[k];
+        if (!child) continue;
+        node.count += child.count;
+        node.sum[0] += child.sum[0];
+        node.sum[1] += child.sum[1];
+        node.sum[2] += child.sum[2];
+        node.children[k] = null;
+        merged++;
+      }
+      node.leaf = true;
+      leafCount -= merged - 1;
+    }
+  }
+
+  const leaves: { sum: Vec3; count: number }[] = [];
+  const collect = (node: OctreeNode) => {
+    if (node.leaf) {
+      if (node.count > 0) leaves.push({ sum: node.sum, count: node.count });
+      return;
+    }
+    node.children.forEach((child) => child && collect(child));
+  };
+  collect(root);
+
+  // The root's children can't be folded any further, so below 8 colors the
+  // closest leaves are merged pairwise
+  const mean = (leaf: { sum: Vec3; count: number }): Vec3 => [
+    leaf.sum[0] / leaf.count,
+    leaf.sum[1] / leaf.count,
+    leaf.sum[2] / leaf.count,
+  ];
+  while (leaves.length > count) {
+    let bestA = 0;
+    let bestB = 1;
+    let bestDist = Infinity;
+    for (let a = 0; a < leaves.length; a++) {
+      for (let b = a + 1; b < leaves.length; b++) {
+        const d = distanceSq(mean(leaves[a]), mean(leaves[b]));
+        if (d < bestDist) {
+          bestDist = d;
+          bestA = a;
+          bestB = b;
+        }
+      }
+    }
+    const [merged] = leaves.splice(bestB, 1);
+    const target = leaves[bestA];
+    target.sum = [target.sum[0] + merged.sum[0], target.sum[1] + merged.sum[1], target.sum[2] + merged.sum[2]];
+    target.count += merged.count;
+  }
+  return leaves.map(mean);
+};
+
+// Pixels below a node (only meaningful before it is folded)
+const subtreeCount = (node: OctreeNode): number =>
+  node.leaf
+    ? node.count
+    : node.children.reduce((sum, child) => sum + (child ? subtreeCount(child) : 0), node.count);
+
+// --- Entry Point ---
+
+export const extractPalette = (
+  data: Uint8ClampedArray,
+  count: number,
+  method: PaletteExtractionMethod
+): Color[] => {
+  const samples = collectSamples(data);
+  if (samples.length === 0) return [];
+  const n = Math.max(MIN_EXTRACTED_COLORS, Math.min(MAX_EXTRACTED_COLORS, Math.round(count)));
+
+  const centers =
+    method === "K-Means"
+      ? kMeans(samples, n)
+      : method === "Octree"
+        ? octree(samples, n)
+        : medianCut(samples, n);
+
+  // Sort dark to light and drop duplicates left after rounding
+  const seen = new Set<number>();
+  return centers
+    .map(([r, g, b]) => ({ r: Math.round(r), g: Math.round(g), b: Math.round(b) }))
+    .sort((a, b) => 0.299 * a.r + 0.587 * a.g + 0.114 * a.b - (0.299 * b.r + 0.587 * b.g + 0.114 * b.b))
+    .filter((c) => {
+      const key = (c.r << 16) | (c.g << 8) | c.b;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
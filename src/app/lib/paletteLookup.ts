@@ -0,0 +1,182 @@
+// --- Nearest-Palette Acceleration ---
+// Both structures return the index of the exact nearest palette entry; they
+// only prune which entries have to be compared.
+
+type Vec3 = [number, number, number];
+
+// --- RGB Lookup Cube ---
+// Space is split into a grid of cells. Diffused error keeps a pixel within
+// 255 of 0-255 per channel, so the grid spans that, and a ring of cells
+// reaching to infinity catches anything beyond (e.g. added noise). For each
+// cell we keep the palette entries that could be nearest to *some* point
+// inside it. A first pass drops entries whose closest possible distance to
+// the cell exceeds the best worst-case distance of any other entry. That
+// alone leaves most of a palette along the gray axis in play away from it,
+// so a second pass drops entries another one beats everywhere in the cell.
+// Cells are filled lazily, so a render only pays for the colors it touches.
+
+const CELL_BITS = 4;
+const CELL = 1 << CELL_BITS; // 16 values per cell
+const GRID_MIN = -256;
+const GRID_MAX = 512;
+const AXIS_CELLS = (GRID_MAX - GRID_MIN) / CELL + 2; // With the outer ring
+
+// Cell along one axis, 0 and AXIS_CELLS - 1 being the outer ones
+const axisCell = (v: number) =>
+  v < GRID_MIN ? 0 : v >= GRID_MAX ? AXIS_CELLS - 1 : ((v - GRID_MIN) >> CELL_BITS) + 1;
+const cellLow = (c: number) => (c === 0 ? -Infinity : GRID_MIN + (c - 1) * CELL);
+const cellHigh = (c: number) => (c === AXIS_CELLS - 1 ? Infinity : GRID_MIN + c * CELL);
+
+export const createRgbLookupCube = (colors: Vec3[]) => {
+  // Candidate lists of all cells share one pool, which keeps lookups in
+  // neighbouring cells close together in memory. -1: not built yet.
+  const cellStart = new Int32Array(AXIS_CELLS * AXIS_CELLS * AXIS_CELLS).fill(-1);
+  const cellCount = new Uint16Array(AXIS_CELLS * AXIS_CELLS * AXIS_CELLS);
+  let pool = new Uint16Array(4096);
+  let poolSize = 0;
+  // Flat copy for the per-pixel loop
+  const flat = Float64Array.from(colors.flat());
+
+  const axisMin = (v: number, lo: number, hi: number) =>
+    v < lo ? lo - v : v > hi ? v - hi : 0;
+  const axisMax = (v: number, lo: number, hi: number) =>
+    Math.max(Math.abs(v - lo), Math.abs(v - hi));
+  // Largest w·x over [lo, hi], without 0 * Infinity
+  const axisWorst = (w: number, lo: number, hi: number) =>
+    w === 0 ? 0 : Math.max(lo * w, hi * w);
+
+  const buildCell = (cr: number, cg: number, cb: number) => {
+    const r0 = cellLow(cr), r1 = cellHigh(cr);
+    const g0 = cellLow(cg), g1 = cellHigh(cg);
+    const b0 = cellLow(cb), b1 = cellHigh(cb);
+
+    const minDists = new Float64Array(colors.length);
+    let bestMax = Infinity;
+    for (let k = 0; k < colors.length; k++) {
+      const [r, g, b] = colors[k];
+      const dr = axisMin(r, r0, r1), dg = axisMin(g, g0, g1), db = axisMin(b, b0, b1);
+      minDists[k] = dr * dr + dg * dg + db * db;
+
+      const mr = axisMax(r, r0, r1), mg = axisMax(g, g0, g1), mb = axisMax(b, b0, b1);
+      const maxDist = mr * mr + mg * mg + mb * mb;
+      if (maxDist < bestMax) bestMax = maxDist;
+    }
+
+    const candidates: number[] = [];
+    for (let k = 0; k < colors.length; k++) {
+      if (minDists[k] <= bestMax) candidates.push(k);
+    }
+
+    // j is closer than k on one side of a plane, so j beats k in the whole
+    // cell if it does at the cell's worst corner for j. The distance
+    // difference is linear in the point, so that corner is picked per axis.
+    const beatsEverywhere = (j: number, k: number) => {
+      const [jr, jg, jb] = colors[j];
+      const [kr, kg, kb] = colors[k];
+      const worst =
+        axisWorst(2 * (kr - jr), r0, r1) +
+        axisWorst(2 * (kg - jg), g0, g1) +
+        axisWorst(2 * (kb - jb), b0, b1) +
+        (jr * jr + jg * jg + jb * jb) -
+        (kr * kr + kg * kg + kb * kb);
+      return worst < 0;
+    };
+
+    // An entry that beats k everywhere is also closer to the cell, so going
+    // from the closest out, k only needs checking against the entries kept
+    const kept: number[] = [];
+    candidates.sort((a, b) => minDists[a] - minDists[b]);
+    for (const k of candidates) {
+      if (!kept.some((j) => beatsEverywhere(j, k))) kept.push(k);
+    }
+    // Back in palette order, so ties go to the same entry as a linear scan
+    return Uint16Array.from(kept).sort();
+  };
+
+  return (r: number, g: number, b: number): number => {
+    const key = (axisCell(r) * AXIS_CELLS + axisCell(g)) * AXIS_CELLS + axisCell(b);
+
+    let start = cellStart[key];
+    if (start < 0) {
+      const candidates = buildCell(axisCell(r), axisCell(g), axisCell(b));
+      if (poolSize + candidates.length > pool.length) {
+        const grown = new Uint16Array(Math.max(pool.length * 2, poolSize + candidates.length));
+        grown.set(pool);
+        pool = grown;
+      }
+      pool.set(candidates, poolSize);
+      start = cellStart[key] = poolSize;
+      cellCount[key] = candidates.length;
+      poolSize += candidates.length;
+    }
+    const end = start + cellCount[key];
+    if (end - start === 1) return pool[start];
+
+    let best = pool[start];
+    let minDist = Infinity;
+    for (let n = start; n < end; n++) {
+      const k = pool[n];
+      const dr = r - flat[k * 3], dg = g - flat[k * 3 + 1], db = b - flat[k * 3 + 2];
+      const dist = dr * dr + dg * dg + db * db;
+      if (dist < minDist) {
+        minDist = dist;
+        best = k;
+      }
+    }
+    return best;
+  };
+};
+
+// --- k-d Tree ---
+// For metrics that are plain Euclidean distance in a converted space
+// (CIELAB, OKLab), where cube cells in RGB don't map to boxes.
+
+type KdNode = {
+  index: number;
+  axis: number;
+  left: KdNode | null;
+  right: KdNode | null;
+};
+
+export const createKdTree = (points: Vec3[]) => {
+  const build = (indices: number[], depth: number): KdNode | null => {
+    if (indices.length === 0) return null;
+    const axis = depth % 3;
+    indices.sort((a, b) => points[a][axis] - points[b][axis]);
+    const mid = indices.length >> 1;
+    return {
+      index: indices[mid],
+      axis,
+      left: build(indices.slice(0, mid), depth + 1),
+      right: build(indices.slice(mid + 1), depth + 1),
+    };
+  };
+
+  const root = build(points.map((_, i) => i), 0);
+
+  return (v: Vec3): number => {
+    let best = 0;
+    let minDist = Infinity;
+
+    const search = (node: KdNode | null) => {
+      if (!node) return;
+      const p = points[node.index];
+      const d0 = v[0] - p[0], d1 = v[1] - p[1], d2 = v[2] - p[2];
+      const dist = d0 * d0 + d1 * d1 + d2 * d2;
+      if (dist < minDist) {
+        minDist = dist;
+        best = node.index;
+      }
+
+      const diff = v[node.axis] - p[node.axis];
+      const near = diff < 0 ? node.left : node.right;
+      const far = diff < 0 ? node.right : node.left;
+      search(near);
+      // Only cross the splitting plane if it is closer than the best so far
+      if (diff * diff < minDist) search(far);
+    };
+
+    search(root);
+    return best;
+  };
+};
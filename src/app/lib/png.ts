@@ -0,0 +1,112 @@
+// --- PNG Encoding ---
+// Canvas exports are always 8-bit RGBA. Plates for risograph and screen
+// printing are written as true 1-bit grayscale PNGs instead: black where
+// the plate prints, white elsewhere. Results too large for a canvas are
+// encoded here as well, as their strips arrive.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, payload: Uint8Array) => {
+  const out = new Uint8Array(12 + payload.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, payload.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(payload, 8);
+  view.setUint32(8 + payload.length, crc32(out.subarray(4, 8 + payload.length)));
+  return out;
+};
+
+// zlib stream, as required for IDAT. bytes must span its whole buffer.
+const deflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes.buffer as ArrayBuffer])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Signature, header and the compressed scanlines
+const pngFile = (width: number, height: number, bitDepth: number, colorType: number, idat: Uint8Array) => {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  // Compression, filter and interlace methods stay 0
+
+  const signature = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  return new Blob(
+    [signature, chunk("IHDR", header), chunk("IDAT", idat), chunk("IEND", new Uint8Array(0))],
+    { type: "image/png" }
+  );
+};
+
+// bits: one byte per pixel, non-zero = ink (black)
+export const encodeOneBitPng = async (
+  bits: Uint8Array,
+  width: number,
+  height: number
+): Promise<Blob> => {
+  // Each scanline: filter type byte (0 = none), then 8 pixels per byte, MSB first
+  const stride = Math.ceil(width / 8);
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    for (let x = 0; x < width; x++) {
+      // In grayscale 1 is white, so paper gets the bit
+      if (!bits[y * width + x]) raw[row + 1 + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+
+  return pngFile(width, height, 1, 0, await deflate(raw)); // 1-bit grayscale
+};
+
+// 8-bit RGBA PNG written from whole rows, added top to bottom. Rows are
+// compressed as they come in, so only the compressed image is kept.
+export const createPngStream = (width: number, height: number) => {
+  const compressor = new CompressionStream("deflate");
+  const writer = compressor.writable.getWriter();
+  const compressed = new Response(compressor.readable).arrayBuffer();
+  const stride = width * 4;
+  let rowsAdded = 0;
+
+  // rgba: 4 bytes per pixel
+  const addRows = (rgba: Uint8ClampedArray) => {
+    const rows = rgba.length / stride;
+    const raw = new Uint8Array((stride + 1) * rows); // Filter type 0 (none) per scanline
+    for (let y = 0; y < rows; y++) raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    rowsAdded += rows;
+    // A failed write also fails the compressed result, which finish reports
+    writer.write(raw).catch(() => {});
+  };
+
+  const finish = async (): Promise<Blob> => {
+    if (rowsAdded !== height) throw new Error(`PNG has ${rowsAdded} of ${height} rows`);
+    await writer.close();
+    return pngFile(width, height, 8, 6, new Uint8Array(await compressed)); // 8-bit RGBA
+  };
+
+  // Drops the rows added so far
+  const abort = () => {
+    writer.abort().catch(() => {});
+    compressed.catch(() => {});
+  };
+
+  return { addRows, finish, abort };
+};
+
+export type PngStream = ReturnType<typeof createPngStream>;
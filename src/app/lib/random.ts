@@ -0,0 +1,28 @@
+// --- Seeded Randomness ---
+// Every stochastic stage draws from a seeded generator instead of
+// Math.random, so the same settings always produce the same image.
+
+// Returns numbers in [0, 1)
+export type Random = () => number;
+
+// mulberry32: small and fast, plenty for dithering noise
+export const createRandom = (seed: number): Random => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Stages get separate streams, so e.g. turning on the noise adjustment
+// doesn't shift the pattern of a stochastic algorithm
+export const RANDOM_STREAMS = {
+  noise: 1,
+  algorithm: 2,
+} as const;
+
+export const createStream = (seed: number, stream: number): Random =>
+  createRandom(seed ^ Math.imul(stream, 0x9e3779b9));
+
+// A fresh seed for the "re-roll" button
+export const randomSeed = () => Math.floor(Math.random() * 0x7fffffff);
@@ -0,0 +1,206 @@
+// --- Variable-Coefficient Error Diffusion ---
+// Coefficient tables are indexed by input level (0-255). Both are published
+// for levels 0-127 only; the upper half mirrors the lower one.
+// Each entry is [right, down-left, down] weights.
+
+export type Coefficients = [number, number, number];
+
+const mirror = (level: number) => {
+  const l = Math.max(0, Math.min(255, Math.round(level)));
+  return l > 127 ? 255 - l : l;
+};
+
+// Ostromoukhov, "A Simple and Efficient Error-Diffusion Algorithm" (SIGGRAPH 2001).
+// All 128 rows copied verbatim from var_coef_tab in the reference C code the
+// author published with the paper.
+const OSTROMOUKHOV_TABLE: Coefficients[] = [
+  [  13,    0,    5], // 0
+  [  13,    0,    5], // 1
+  [  21,    0,   10], // 2
+  [   7,    0,    4], // 3
+  [   8,    0,    5], // 4
+  [  47,    3,   28], // 5
+  [  23,    3,   13], // 6
+  [  15,    3,    8], // 7
+  [  22,    6,   11], // 8
+  [  43,   15,   20], // 9
+  [   7,    3,    3], // 10
+  [ 501,  224,  211], // 11
+  [ 249,  116,  103], // 12
+  [ 165,   80,   67], // 13
+  [ 123,   62,   49], // 14
+  [ 489,  256,  191], // 15
+  [  81,   44,   31], // 16
+  [ 483,  272,  181], // 17
+  [  60,   35,   22], // 18
+  [  53,   32,   19], // 19
+  [ 237,  148,   83], // 20
+  [ 471,  304,  161], // 21
+  [   3,    2,    1], // 22
+  [ 481,  314,  185], // 23
+  [ 354,  226,  155], // 24
+  [1389,  866,  685], // 25
+  [ 227,  138,  125], // 26
+  [ 267,  158,  163], // 27
+  [ 327,  188,  220], // 28
+  [  61,   34,   45], // 29
+  [ 627,  338,  505], // 30
+  [1227,  638, 1075], // 31
+  [  20,   10,   19], // 32
+  [1937, 1000, 1767], // 33
+  [ 977,  520,  855], // 34
+  [ 657,  360,  551], // 35
+  [  71,   40,   57], // 36
+  [2005, 1160, 1539], // 37
+  [ 337,  200,  247], // 38
+  [2039, 1240, 1425], // 39
+  [ 257,  160,  171], // 40
+  [ 691,  440,  437], // 41
+  [1045,  680,  627], // 42
+  [ 301,  200,  171], // 43
+  [ 177,  120,   95], // 44
+  [2141, 1480, 1083], // 45
+  [1079,  760,  513], // 46
+  [ 725,  520,  323], // 47
+  [ 137,  100,   57], // 48
+  [2209, 1640,  855], // 49
+  [  53,   40,   19], // 50
+  [2243, 1720,  741], // 51
+  [ 565,  440,  171], // 52
+  [ 759,  600,  209], // 53
+  [1147,  920,  285], // 54
+  [2311, 1880,  513], // 55
+  [  97,   80,   19], // 56
+  [ 335,  280,   57], // 57
+  [1181, 1000,  171], // 58
+  [ 793,  680,   95], // 59
+  [ 599,  520,   57], // 60
+  [2413, 2120,  171], // 61
+  [ 405,  360,   19], // 62
+  [2447, 2200,   57], // 63
+  [  11,   10,    0], // 64
+  [ 158,  151,    3], // 65
+  [ 178,  179,    7], // 66
+  [1030, 1091,   63], // 67
+  [ 248,  277,   21], // 68
+  [ 318,  375,   35], // 69
+  [ 458,  571,   63], // 70
+  [ 878, 1159,  147], // 71
+  [   5,    7,    1], // 72
+  [ 172,  181,   37], // 73
+  [  97,   76,   22], // 74
+  [  72,   41,   17], // 75
+  [ 119,   47,   29], // 76
+  [   4,    1,    1], // 77
+  [   4,    1,    1], // 78
+  [   4,    1,    1], // 79
+  [   4,    1,    1], // 80
+  [   4,    1,    1], // 81
+  [   4,    1,    1], // 82
+  [   4,    1,    1], // 83
+  [   4,    1,    1], // 84
+  [   4,    1,    1], // 85
+  [  65,   18,   17], // 86
+  [  95,   29,   26], // 87
+  [ 185,   62,   53], // 88
+  [  30,   11,    9], // 89
+  [  35,   14,   11], // 90
+  [  85,   37,   28], // 91
+  [  55,   26,   19], // 92
+  [  80,   41,   29], // 93
+  [ 155,   86,   59], // 94
+  [   5,    3,    2], // 95
+  [   5,    3,    2], // 96
+  [   5,    3,    2], // 97
+  [   5,    3,    2], // 98
+  [   5,    3,    2], // 99
+  [   5,    3,    2], // 100
+  [   5,    3,    2], // 101
+  [   5,    3,    2], // 102
+  [   5,    3,    2], // 103
+  [   5,    3,    2], // 104
+  [   5,    3,    2], // 105
+  [   5,    3,    2], // 106
+  [   5,    3,    2], // 107
+  [ 305,  176,  119], // 108
+  [ 155,   86,   59], // 109
+  [ 105,   56,   39], // 110
+  [  80,   41,   29], // 111
+  [  65,   32,   23], // 112
+  [  55,   26,   19], // 113
+  [ 335,  152,  113], // 114
+  [  85,   37,   28], // 115
+  [ 115,   48,   37], // 116
+  [  35,   14,   11], // 117
+  [ 355,  136,  109], // 118
+  [  30,   11,    9], // 119
+  [ 365,  128,  107], // 120
+  [ 185,   62,   53], // 121
+  [  25,    8,    7], // 122
+  [  95,   29,   26], // 123
+  [ 385,  112,  103], // 124
+  [  65,   18,   17], // 125
+  [ 395,  104,  101], // 126
+  [   4,    1,    1], // 127
+];
+
+export const getOstromoukhovCoefficients = (level: number): Coefficients =>
+  OSTROMOUKHOV_TABLE[mirror(level)];
+
+// Zhou & Fang, "Improving Mid-tone Quality of Variable-Coefficient Error
+// Diffusion Using Threshold Modulation" (SIGGRAPH 2003). Only key levels are
+// published; levels in between are interpolated linearly.
+const ZHOU_FANG_KEY_LEVELS: { level: number; coefficients: Coefficients; modulation: number }[] = [
+  { level: 0, coefficients: [13, 0, 5], modulation: 0 },
+  { level: 1, coefficients: [1300249, 0, 499250], modulation: 0 },
+  { level: 2, coefficients: [213113, 287, 99357], modulation: 0 },
+  { level: 3, coefficients: [351854, 0, 199965], modulation: 0 },
+  { level: 4, coefficients: [801100, 0, 490999], modulation: 0 },
+  { level: 10, coefficients: [704075, 297466, 303694], modulation: 0 },
+  { level: 22, coefficients: [46613, 31917, 21469], modulation: 0 },
+  { level: 32, coefficients: [47482, 30617, 21900], modulation: 0 },
+  { level: 44, coefficients: [43024, 42131, 14826], modulation: 0.34 },
+  { level: 64, coefficients: [36411, 43219, 20369], modulation: 0.5 },
+  { level: 72, coefficients: [38477, 53843, 7678], modulation: 0.5 },
+  { level: 77, coefficients: [40503, 51547, 7948], modulation: 0.5 },
+  { level: 85, coefficients: [35865, 34108, 30026], modulation: 1 },
+  { level: 95, coefficients: [34117, 36899, 28983], modulation: 0.17 },
+  { level: 102, coefficients: [35464, 35049, 29485], modulation: 0.5 },
+  { level: 107, coefficients: [16477, 18810, 14712], modulation: 0.7 },
+  { level: 112, coefficients: [33360, 37954, 28685], modulation: 0.79 },
+  { level: 127, coefficients: [35269, 36066, 28664], modulation: 1 },
+];
+
+const normalize = ([r, dl, d]: Coefficients): Coefficients => {
+  const sum = r + dl + d;
+  return [r / sum, dl / sum, d / sum];
+};
+
+// Expanded once to all 128 levels
+const ZHOU_FANG_TABLE = (() => {
+  const coefficients: Coefficients[] = [];
+  const modulation: number[] = [];
+  for (let l = 0; l < 128; l++) {
+    let k = 0;
+    while (ZHOU_FANG_KEY_LEVELS[k + 1] && ZHOU_FANG_KEY_LEVELS[k + 1].level <= l) k++;
+    const lo = ZHOU_FANG_KEY_LEVELS[k];
+    const hi = ZHOU_FANG_KEY_LEVELS[k + 1] ?? lo;
+    const t = hi.level === lo.level ? 0 : (l - lo.level) / (hi.level - lo.level);
+    const a = normalize(lo.coefficients);
+    const b = normalize(hi.coefficients);
+    coefficients.push([
+      a[0] + (b[0] - a[0]) * t,
+      a[1] + (b[1] - a[1]) * t,
+      a[2] + (b[2] - a[2]) * t,
+    ]);
+    modulation.push(lo.modulation + (hi.modulation - lo.modulation) * t);
+  }
+  return { coefficients, modulation };
+})();
+
+export const getZhouFangCoefficients = (level: number): Coefficients =>
+  ZHOU_FANG_TABLE.coefficients[mirror(level)];
+
+// Threshold modulation strength (0-1) for the level
+export const getZhouFangModulation = (level: number): number =>
+  ZHOU_FANG_TABLE.modulation[mirror(level)];
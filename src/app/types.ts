@@ -1,3 +1,5 @@
+import type { AlgorithmName } from "./lib/algorithms";
+
 export type Color = { r: number; g: number; b: number };
 
 export type Palette = {
@@ -5,34 +7,53 @@ export type Palette = {
   colors: Color[];
 };
 
-export type AlgorithmName =
-  | "Floyd-Steinberg"
-  | "Atkinson"
-  | "Jarvis-Judice-Ninke"
-  | "Stucki"
-  | "Burkes"
-  | "Sierra"
-  | "Two-Row Sierra"
-  | "Sierra Lite"
-  | "Ordered 2x2"
-  | "Ordered 4x4"
-  | "Ordered 8x8"
-  | "Random"
-  | "Blue Noise" // Approximated or standard noise if texture missing
-  | "Threshold"
-  | "Modulation"
-  | "Circuitry"
-  | "Fizz";
-
-export interface DitherSettings {
+export type ColorMetric = "RGB" | "Redmean" | "CIE76" | "CIEDE2000" | "OKLab";
+
+// Ids of the registered algorithms
+export type { AlgorithmName };
+
+// Algorithms available for dithering the alpha channel to 1-bit
+export type AlphaAlgorithm = "Threshold" | "Ordered 8x8" | "Blue Noise" | "Floyd-Steinberg";
+
+export type HalftoneDotShape = "Round" | "Elliptical" | "Square" | "Line" | "Diamond";
+
+export type CustomKernel = {
+  // "diffusion": error-diffusion weights; "threshold": ordered threshold matrix
+  mode: "diffusion" | "threshold";
+  matrix: number[][];
+  // Diffusion only: weights are divided by this, and originX is the column of
+  // the current pixel in the first row
+  divisor: number;
+  originX: number;
+};
+
+export type SavedKernel = {
+  name: string;
+  kernel: CustomKernel;
+};
+
+// Settings read by individual algorithms. Each algorithm module adds its own
+// fields here (module augmentation) next to the params that edit them, and
+// their defaults come from those params.
+export interface AlgorithmSettings {}
+
+export interface DitherSettings extends AlgorithmSettings {
   algorithm: AlgorithmName;
+  cmykAngles: [number, number, number, number]; // CMYK: screen angle per plate (C, M, Y, K)
+  cmykBlackGeneration: number; // CMYK: % of the gray component printed as black (0-100)
+  cmykUnderColorRemoval: number; // CMYK: % of that black removed from C, M, Y (0-100)
+  seed: number; // Seeds every random stage, so identical settings give identical output
   resolutionScale: number; // 0.1 to 1.0 (simulates DPI)
-  colorSpace: "RGB" | "Grayscale" | "1-bit" | "Custom";
+  colorSpace: "RGB" | "Grayscale" | "1-bit" | "Custom" | "CMYK";
   palette: Color[];
+  colorMetric: ColorMetric; // Distance used to pick the nearest palette color
+  linearLight: boolean; // Quantize and diffuse error in linear RGB instead of sRGB
+  alphaDither: boolean; // Dither transparency to fully opaque / fully transparent
+  alphaAlgorithm: AlphaAlgorithm;
   brightness: number; // -100 to 100
   contrast: number; // -100 to 100
-  sharpness: number; // 0 to 100
-  blur: number; // 0 to 20
+  sharpness: number; // 0 to 100 (unsharp mask amount)
+  blur: number; // 0 to 20 (Gaussian radius in pixels)
   noise: number; // 0 to 100
   // Levels
   levelsShadows: number; // 0-255